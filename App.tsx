@@ -1,19 +1,118 @@
-import React, { useState, useCallback } from 'react';
-import { Crawler } from './services/crawler';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Crawler, CrawlCancelledError, DEFAULT_CRAWL_CONFIG } from './services/crawler';
+import { TRANSPORT_LABELS } from './services/proxy';
+import { browserHtmlAdapter, BrowserOutputSink, canSaveToDisk, FileDownloadSink, pickSaveFile, ZipDownloadSink } from './services/adapters/browser';
+import { TOOL_VERSION } from './services/manifest';
+import { IndexedDbCache } from './services/cache';
+import { IndexedDbHistory } from './services/history';
+import { CrawlJob, JobQueue } from './services/jobs';
+import { HarReplay } from './services/har';
+import { loadCrawlConfig, saveCrawlConfig } from './services/settings';
+import { createEmptyStats } from './services/stats';
 import Terminal from './components/Terminal';
 import StatsCard from './components/StatsCard';
-import { LogEntry, AppState, CrawlStats, LogLevel } from './types';
+import CrawlSettings from './components/CrawlSettings';
+import CachePanel from './components/CachePanel';
+import CrawlRulesPanel from './components/CrawlRulesPanel';
+import PostProcessingPanel from './components/PostProcessingPanel';
+import AuthProfilesPanel from './components/AuthProfilesPanel';
+import SkippedPanel from './components/SkippedPanel';
+import LinkReportPanel from './components/LinkReportPanel';
+import HarImport from './components/HarImport';
+import ArchivePreviewPanel from './components/ArchivePreviewPanel';
+import BatchPanel from './components/BatchPanel';
+import HistoryPanel from './components/HistoryPanel';
+import { LogEntry, AppState, CrawlStats, CrawlConfig, LogLevel, SkippedResource, LinkReport, HistoryEntry, AuthProfile } from './types';
+
+const responseCache = new IndexedDbCache();
+const crawlHistory = new IndexedDbHistory();
+
+interface CrawlRun {
+  id: string;
+  url: string;
+  options: CrawlConfig;
+  startedAt: number;
+}
+
+const createSink = (config: CrawlConfig, fileHandle: FileSystemFileHandle | null = null): BrowserOutputSink =>
+  config.outputFormat === 'zip' ? new ZipDownloadSink(config.memoryBudget, fileHandle) : new FileDownloadSink();
+
+/**
+ * Records a crawl in the history, together with its output unless that already went to disk.
+ */
+const recordCrawl = async (
+  run: CrawlRun,
+  outcome: HistoryEntry['outcome'],
+  error: string | null,
+  stats: CrawlStats,
+  sink: BrowserOutputSink | null
+) => {
+  const archive = sink?.archive ?? null;
+  try {
+    await crawlHistory.put({
+      ...run,
+      outcome,
+      error,
+      finishedAt: Date.now(),
+      pages: stats.pagesScanned,
+      assets: stats.assetsDownloaded,
+      failed: stats.failed,
+      size: archive?.size ?? 0,
+      filename: sink?.filename ?? null,
+      archived: false,
+    }, sink?.savedToDisk ? null : archive);
+  } catch {
+    // IndexedDB unavailable (private mode): the crawl itself is unaffected
+  }
+};
+
+const RUNNING_STATES = [AppState.CRAWLING, AppState.PROCESSING, AppState.COMPRESSING, AppState.PAUSED];
+
+const RUNNING_LABELS: Partial<Record<AppState, string>> = {
+  [AppState.CRAWLING]: 'Crawling...',
+  [AppState.PROCESSING]: 'Processing...',
+  [AppState.COMPRESSING]: 'Compressing...',
+  [AppState.PAUSED]: 'Paused',
+};
 
 function App() {
   const [url, setUrl] = useState('https://example.com');
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [stats, setStats] = useState<CrawlStats>({
-    pagesScanned: 0,
-    assetsFound: 0,
-    assetsDownloaded: 0,
-    totalSize: 0
-  });
+  const [config, setConfig] = useState<CrawlConfig>(() => loadCrawlConfig({ ...DEFAULT_CRAWL_CONFIG, maxDepth: 1 }));
+  const [canDownloadPartial, setCanDownloadPartial] = useState(false);
+  const [skipped, setSkipped] = useState<SkippedResource[]>([]);
+  const [linkReport, setLinkReport] = useState<LinkReport | null>(null);
+  const [replay, setReplay] = useState<HarReplay | null>(null);
+  const [output, setOutput] = useState<BrowserOutputSink | null>(null);
+  const crawlerRef = useRef<Crawler | null>(null);
+  const sinkRef = useRef<BrowserOutputSink | null>(null);
+  const runRef = useRef<CrawlRun | null>(null);
+  const [jobs, setJobs] = useState<CrawlJob<BrowserOutputSink>[]>([]);
+  const [parallelJobs, setParallelJobs] = useState(2);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [jobQueue] = useState(() => new JobQueue<BrowserOutputSink>({
+    htmlAdapter: browserHtmlAdapter,
+    cache: responseCache,
+    createSink: (jobConfig) => createSink(jobConfig),
+    onChange: setJobs,
+    onSettled: (job) => {
+      const run = { id: job.id, url: job.url, options: job.config, startedAt: job.startedAt ?? Date.now() };
+      const outcome = job.state as HistoryEntry['outcome'];
+      recordCrawl(run, outcome, job.error, job.stats, outcome === AppState.FINISHED ? job.sink : null)
+        .then(() => setHistoryVersion(version => version + 1));
+    },
+  }));
+  const isRunning = RUNNING_STATES.includes(appState);
+  const [stats, setStats] = useState<CrawlStats>(createEmptyStats);
+
+  useEffect(() => {
+    saveCrawlConfig(config);
+  }, [config]);
+
+  useEffect(() => {
+    jobQueue.setConcurrency(parallelJobs);
+  }, [jobQueue, parallelJobs]);
 
   const addLog = useCallback((entry: LogEntry) => {
     setLogs(prev => [...prev, entry]);
@@ -23,28 +122,126 @@ function App() {
     setStats(newStats);
   }, []);
 
+  const handleReplayChange = (next: HarReplay | null) => {
+    setReplay(next);
+    // Start from the captured page unless the URL already points into the capture's site
+    const firstPage = next?.firstPageUrl;
+    if (!firstPage) return;
+    try {
+      if (new URL(url).origin === new URL(firstPage).origin) return;
+    } catch {
+      // Current URL is not valid, replace it
+    }
+    setUrl(firstPage);
+  };
+
   const handleStart = async () => {
     if (!url) return;
+
+    // The file picker needs the click that started the crawl, so ask before anything else
+    let fileHandle: FileSystemFileHandle | null = null;
+    if (config.outputFormat === 'zip' && config.saveToDisk && canSaveToDisk) {
+      let host = 'site';
+      try {
+        host = new URL(url).hostname.replace(/[^a-z0-9]/gi, '_');
+      } catch {
+        // Invalid URL: the crawler reports it below
+      }
+      fileHandle = await pickSaveFile(`${host}_source.zip`);
+      if (!fileHandle) return;
+    }
     
     // Reset
     setLogs([]);
-    setStats({ pagesScanned: 0, assetsFound: 0, assetsDownloaded: 0, totalSize: 0 });
+    setStats(createEmptyStats());
+    setCanDownloadPartial(false);
+    setSkipped([]);
+    setLinkReport(null);
+    setOutput(null);
     setAppState(AppState.CRAWLING);
 
+    let crawler: Crawler | null = null;
+    const sink = createSink(config, fileHandle);
+    sinkRef.current = sink;
+    const run: CrawlRun = { id: crypto.randomUUID(), url, options: config, startedAt: Date.now() };
+    runRef.current = run;
+    let finalStats = createEmptyStats();
+    const record = (outcome: HistoryEntry['outcome'], error: string | null, output: BrowserOutputSink | null) =>
+      recordCrawl(run, outcome, error, finalStats, output).then(() => setHistoryVersion(version => version + 1));
     try {
-      const crawler = new Crawler({
+      crawler = new Crawler({
         url,
+        ...config,
+        htmlAdapter: browserHtmlAdapter,
+        sink,
+        cache: responseCache,
+        replay: replay ?? undefined,
         onLog: addLog,
-        onStatsUpdate: updateStats
+        onStatsUpdate: (next) => {
+          finalStats = next;
+          updateStats(next);
+        },
+        onStateChange: setAppState,
+        onSkip: (resource) => setSkipped(prev => [...prev, resource]),
+        onLinkReport: setLinkReport
       });
+      crawlerRef.current = crawler;
       
       await crawler.start();
+      setOutput(sink);
       setAppState(AppState.FINISHED);
+      record(AppState.FINISHED, null, sink);
     } catch (error) {
-      setAppState(AppState.ERROR);
+      if (error instanceof CrawlCancelledError) {
+        setAppState(AppState.CANCELLED);
+        setCanDownloadPartial(crawler?.hasPartialResult ?? false);
+        record(AppState.CANCELLED, null, null);
+      } else {
+        record(AppState.ERROR, (error as Error).message, null);
+        if (!crawler) {
+          // Bad URL or crawl rules: the crawler never started, so nothing was logged yet
+          addLog({ id: Math.random().toString(36).substr(2, 9), timestamp: Date.now(), message: (error as Error).message, level: LogLevel.ERROR });
+        }
+        setAppState(AppState.ERROR);
+      }
     }
   };
 
+  const handlePauseResume = () => {
+    if (appState === AppState.PAUSED) {
+      crawlerRef.current?.resume();
+    } else {
+      crawlerRef.current?.pause();
+    }
+  };
+
+  const handleCancel = () => {
+    crawlerRef.current?.cancel();
+  };
+
+  const handleDownloadPartial = async () => {
+    setCanDownloadPartial(false);
+    try {
+      await crawlerRef.current?.downloadPartial();
+      setOutput(sinkRef.current);
+      // Replaces the record made at cancel time, now with the partial output
+      if (runRef.current) {
+        await recordCrawl(runRef.current, AppState.CANCELLED, null, stats, sinkRef.current);
+        setHistoryVersion(version => version + 1);
+      }
+    } finally {
+      setAppState(AppState.CANCELLED);
+    }
+  };
+
+  // History only has redacted profiles, so re-runs use the current ones with the same ids; deleted profiles stay gone
+  const handleRerun = (entry: HistoryEntry) => {
+    const authProfiles = entry.options.authProfiles
+      .map(recorded => config.authProfiles.find(profile => profile.id === recorded.id))
+      .filter((profile): profile is AuthProfile => profile !== undefined);
+    jobQueue.add([entry.url], { ...entry.options, authProfiles });
+  };
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8 font-sans">
       <div className="max-w-5xl mx-auto space-y-8">
@@ -72,40 +269,130 @@ function App() {
                 onChange={(e) => setUrl(e.target.value)}
                 placeholder="https://example.com"
                 className="w-full pl-10 pr-4 py-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-white placeholder-slate-500 outline-none transition"
-                disabled={appState === AppState.CRAWLING}
+                disabled={isRunning}
               />
             </div>
             <button
               onClick={handleStart}
-              disabled={appState === AppState.CRAWLING || !url}
+              disabled={isRunning || !url}
               className={`px-8 py-3 rounded-lg font-bold shadow-lg transition flex items-center justify-center gap-2
-                ${appState === AppState.CRAWLING 
+                ${isRunning 
                   ? 'bg-slate-700 cursor-not-allowed text-slate-400' 
                   : 'bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-400 hover:to-blue-500 text-white transform hover:scale-105 active:scale-95'
                 }`}
             >
-              {appState === AppState.CRAWLING ? (
-                <><i className="fas fa-spinner fa-spin"></i> Processing...</>
+              {isRunning ? (
+                <>
+                  <i className={`fas ${appState === AppState.PAUSED ? 'fa-pause' : 'fa-spinner fa-spin'}`}></i>
+                  {' '}{RUNNING_LABELS[appState]}
+                </>
               ) : (
                 <><i className="fas fa-download"></i> Extract Source</>
               )}
             </button>
+            {isRunning && (
+              <>
+                <button
+                  onClick={handlePauseResume}
+                  disabled={appState === AppState.COMPRESSING}
+                  className="px-5 py-3 rounded-lg font-bold bg-slate-700 hover:bg-slate-600 text-white transition flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {appState === AppState.PAUSED ? (
+                    <><i className="fas fa-play"></i> Resume</>
+                  ) : (
+                    <><i className="fas fa-pause"></i> Pause</>
+                  )}
+                </button>
+                <button
+                  onClick={handleCancel}
+                  disabled={appState === AppState.COMPRESSING}
+                  className="px-5 py-3 rounded-lg font-bold bg-red-600 hover:bg-red-500 text-white transition flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <i className="fas fa-stop"></i> Cancel
+                </button>
+              </>
+            )}
           </div>
+          {appState === AppState.CANCELLED && canDownloadPartial && (
+            <div className="mt-4 flex items-center justify-between gap-4 bg-yellow-500/10 border border-yellow-600/40 rounded-lg px-4 py-3 text-sm text-yellow-300">
+              <span><i className="fas fa-exclamation-triangle mr-2"></i>Crawl cancelled. You can still build an archive from what was downloaded so far.</span>
+              <button
+                onClick={handleDownloadPartial}
+                className="px-4 py-2 rounded-lg font-bold bg-yellow-600 hover:bg-yellow-500 text-slate-900 transition whitespace-nowrap"
+              >
+                <i className="fas fa-file-archive mr-2"></i>Preview what we have so far
+              </button>
+            </div>
+          )}
+          <HarImport replay={replay} onChange={handleReplayChange} disabled={isRunning} />
+          <CrawlSettings config={config} onChange={setConfig} disabled={isRunning} />
+          <CrawlRulesPanel rules={config.rules} onChange={(rules) => setConfig({ ...config, rules })} disabled={isRunning} />
+          <PostProcessingPanel
+            postProcessing={config.postProcessing}
+            onChange={(postProcessing) => setConfig({ ...config, postProcessing })}
+            disabled={isRunning}
+          />
+          <AuthProfilesPanel
+            profiles={config.authProfiles}
+            transport={config.transport.kind}
+            onChange={(authProfiles) => setConfig({ ...config, authProfiles })}
+            disabled={isRunning}
+          />
           <div className="mt-3 text-xs text-slate-500 flex items-center gap-2">
             <i className="fas fa-info-circle"></i>
-            <span>Uses public CORS proxies. Large sites may fail due to proxy limits. Educational use only.</span>
+            <span>
+              {replay
+                ? `Replaying ${replay.name.replace(/^har:/, '')}. Nothing is fetched from the network; missing URLs are reported.`
+                : config.transport.kind === 'public'
+                ? 'Uses public CORS proxies. Large sites may fail due to proxy limits. Do not use for internal URLs.'
+                : `Fetching via ${TRANSPORT_LABELS[config.transport.kind]}. No third-party proxies are contacted.`}
+              {' '}Educational use only.
+            </span>
           </div>
         </div>
 
+        {/* Batch Queue */}
+        <BatchPanel
+          jobs={jobs}
+          parallelJobs={parallelJobs}
+          onParallelJobsChange={setParallelJobs}
+          onQueue={(urls) => jobQueue.add(urls, config)}
+          onCancel={(id) => jobQueue.cancel(id)}
+          onRemove={(id) => jobQueue.remove(id)}
+          onClearSettled={() => jobQueue.clearSettled()}
+        />
+
         {/* Stats Grid */}
-        <StatsCard stats={stats} />
+        <StatsCard stats={stats} running={isRunning} />
+
+        {/* Archive Preview */}
+        {output && output.filename && (
+          <ArchivePreviewPanel
+            files={output.files}
+            filename={output.filename}
+            savedToDisk={output.savedToDisk}
+            onDownload={() => output.download()}
+          />
+        )}
+
+        {/* Skipped Resources */}
+        <SkippedPanel skipped={skipped} />
+
+        {/* Link Check */}
+        <LinkReportPanel report={linkReport} />
+
+        {/* Cache Inspector */}
+        <CachePanel cache={responseCache} refreshKey={appState} disabled={isRunning} />
+
+        {/* Crawl History */}
+        <HistoryPanel history={crawlHistory} refreshKey={historyVersion} onRerun={handleRerun} />
 
         {/* Terminal Output */}
         <Terminal logs={logs} />
         
         {/* Footer */}
         <footer className="text-center text-slate-600 text-sm">
-           SiteRipper v1.0 &bull; Runs entirely in your browser &bull; No Backend
+           SiteRipper v{TOOL_VERSION} &bull; Runs entirely in your browser &bull; No Backend
         </footer>
       </div>
     </div>
@@ -0,0 +1,284 @@
+/**
+ * Headless SiteRipper: runs the same Crawler engine as the web app from a terminal.
+ *
+ *   npm run build:cli
+ *   node dist-cli/siteripper.mjs https://example.com -o example.zip --depth 2
+ */
+import { parseArgs } from 'node:util';
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { Crawler, CrawlCancelledError, DEFAULT_CRAWL_CONFIG } from '../services/crawler';
+import { DEFAULT_TRANSPORT, TRANSPORT_LABELS } from '../services/proxy';
+import { OUTPUT_FORMAT_EXTENSIONS } from '../services/formats';
+import { HarReplay } from '../services/har';
+import { ASSET_TYPE_LABELS, DEFAULT_CRAWL_RULES, THIRD_PARTY_POLICY_LABELS } from '../services/rules';
+import { createAuthProfile, parseHeaderLines } from '../services/auth';
+import { DEFAULT_POST_PROCESSING, INTEGRITY_MODE_LABELS, POST_PROCESS_LABELS } from '../services/postprocess';
+import { nodeHtmlAdapter, ZipFileSink, DirectorySink, FileSink } from '../services/adapters/node';
+import { Asset, AuthProfile, CrawlScope, IntegrityMode, LogEntry, LogLevel, OutputFormat, PostProcessTransform, ThirdPartyPolicy, TransportKind } from '../types';
+
+const USAGE = `Usage: siteripper <url> [options]
+       siteripper --har <file> [url] [options]
+
+Options:
+  -o, --output <path>        ZIP file or directory to write (default: <host>_source.zip)
+  -f, --format <format>      zip | dir | warc | html (default: inferred from --output, else zip)
+  -d, --depth <n>            Link depth to follow (default: ${DEFAULT_CRAWL_CONFIG.maxDepth})
+      --max-pages <n>        Maximum number of pages (default: ${DEFAULT_CRAWL_CONFIG.maxPages})
+      --scope <scope>        same-host | same-path | allowlist (default: ${DEFAULT_CRAWL_CONFIG.scope})
+      --allow-host <host>    Extra host for the allowlist scope (repeatable)
+  -c, --concurrency <n>      Parallel asset downloads (default: ${DEFAULT_CRAWL_CONFIG.concurrency})
+      --retries <n>          Retries after timeouts, 429 and 5xx responses (default: ${DEFAULT_CRAWL_CONFIG.maxRetries})
+      --timeout <seconds>    Per-request timeout, 0 for none (default: ${DEFAULT_CRAWL_CONFIG.requestTimeout / 1000})
+      --rate <n>             Max requests per second per host, 0 for unlimited (default: ${DEFAULT_CRAWL_CONFIG.hostRateLimit})
+  -t, --transport <kind>     ${Object.keys(TRANSPORT_LABELS).join(' | ')} (default: direct)
+      --proxy-template <url> URL template for the custom-proxy transport, e.g. "https://proxy/fetch?url={url}"
+      --proxy-url <url>      Base URL for the local-server transport (default: ${DEFAULT_TRANSPORT.localServerUrl})
+      --path-strategy <s>    mirror | hash (default: ${DEFAULT_CRAWL_CONFIG.pathStrategy})
+      --include <pattern>    Only fetch URLs matching this glob or /regex/ (repeatable)
+      --exclude <pattern>    Never fetch URLs matching this glob or /regex/ (repeatable)
+      --skip-type <type>     Skip assets of this type: ${Object.keys(ASSET_TYPE_LABELS).join(' | ')} (repeatable)
+      --max-asset-size <mb>  Skip assets larger than this (default: unlimited)
+      --max-total-size <mb>  Stop fetching assets once the archive reaches this size (default: unlimited)
+      --third-party <policy> ${Object.keys(THIRD_PARTY_POLICY_LABELS).join(' | ')} (default: ${DEFAULT_CRAWL_RULES.thirdParty})
+      --sitemap              Also crawl the pages listed in the site's sitemap.xml
+      --since <date>         With --sitemap, only pages whose lastmod is on or after this ISO date
+      --user-agent <ua>      User-agent matched against robots.txt (default: ${DEFAULT_CRAWL_CONFIG.userAgent})
+      --ignore-robots        Override robots.txt disallow rules and crawl-delay
+      --auth-profiles <file> JSON list of auth profiles (name, hostPattern, headers, cookies,
+                             userAgent, username, password); not used with the public transport
+      --header <line>        "Name: value" header sent to the entry host (repeatable)
+      --cookie <cookies>     Cookie header sent to the entry host, e.g. "session=abc"
+      --basic-auth <u:p>     HTTP basic auth credentials for the entry host
+      --transform <id>       Enable a post-processing transform (repeatable):
+                             ${Object.keys(POST_PROCESS_LABELS).join(' | ')}
+                             (default: ${Object.keys(POST_PROCESS_LABELS).filter(id => DEFAULT_POST_PROCESSING.transforms[id as PostProcessTransform]).join(', ')})
+      --skip-transform <id>  Disable a post-processing transform (repeatable)
+      --integrity <mode>     ${Object.keys(INTEGRITY_MODE_LABELS).join(' | ')} integrity hashes of local copies (default: ${DEFAULT_POST_PROCESSING.integrity})
+      --memory-budget <mb>   Memory the ZIP writer may use before waiting for the disk (default: ${DEFAULT_CRAWL_CONFIG.memoryBudget / 1024 / 1024})
+      --strict-links         Fail when archived pages or stylesheets reference files missing
+                             from the archive
+      --max-missing <n>      Missing references tolerated by --strict-links (default: ${DEFAULT_CRAWL_CONFIG.maxMissingRefs})
+      --har <file>           Replay responses from a HAR capture instead of using the network.
+                             The URL defaults to the first HTML page in the capture.
+  -q, --quiet                Only print warnings and errors
+  -h, --help                 Show this help
+`;
+
+const parseIntOption = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed) || parsed < 0) {
+    throw new Error(`--${name} expects a non-negative number, got "${value}"`);
+  }
+  return parsed;
+};
+
+const inferFormat = (output: string | undefined): string => {
+  if (!output) return 'zip';
+  const match = output.toLowerCase().match(/\.(zip|warc|html?)$/);
+  if (!match) return 'dir';
+  return match[1].startsWith('htm') ? 'html' : match[1];
+};
+
+const formatLog = (entry: LogEntry): string => {
+  const time = new Date(entry.timestamp).toISOString().substring(11, 19);
+  return `[${time}] ${entry.level.padEnd(7)} ${entry.message}`;
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      depth: { type: 'string', short: 'd' },
+      'max-pages': { type: 'string' },
+      scope: { type: 'string' },
+      'allow-host': { type: 'string', multiple: true },
+      concurrency: { type: 'string', short: 'c' },
+      retries: { type: 'string' },
+      timeout: { type: 'string' },
+      rate: { type: 'string' },
+      transport: { type: 'string', short: 't' },
+      'proxy-template': { type: 'string' },
+      'proxy-url': { type: 'string' },
+      'path-strategy': { type: 'string' },
+      include: { type: 'string', multiple: true },
+      exclude: { type: 'string', multiple: true },
+      'skip-type': { type: 'string', multiple: true },
+      'max-asset-size': { type: 'string' },
+      'max-total-size': { type: 'string' },
+      'third-party': { type: 'string' },
+      sitemap: { type: 'boolean' },
+      since: { type: 'string' },
+      'user-agent': { type: 'string' },
+      'ignore-robots': { type: 'boolean' },
+      'auth-profiles': { type: 'string' },
+      header: { type: 'string', multiple: true },
+      cookie: { type: 'string' },
+      'basic-auth': { type: 'string' },
+      transform: { type: 'string', multiple: true },
+      'skip-transform': { type: 'string', multiple: true },
+      integrity: { type: 'string' },
+      'memory-budget': { type: 'string' },
+      'strict-links': { type: 'boolean' },
+      'max-missing': { type: 'string' },
+      har: { type: 'string' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const replay = values.har
+    ? HarReplay.parse(await readFile(values.har, 'utf8'), basename(values.har))
+    : undefined;
+  const url = positionals[0] ?? replay?.firstPageUrl;
+  if (positionals.length > 1 || !url) {
+    process.stderr.write(USAGE);
+    return 2;
+  }
+
+  const transportKind = (values.transport ?? 'direct') as TransportKind;
+  if (!(transportKind in TRANSPORT_LABELS)) {
+    throw new Error(`Unknown transport "${transportKind}"`);
+  }
+  const scope = (values.scope ?? DEFAULT_CRAWL_CONFIG.scope) as CrawlScope;
+  if (!['same-host', 'same-path', 'allowlist'].includes(scope)) {
+    throw new Error(`Unknown scope "${scope}"`);
+  }
+  const pathStrategy = values['path-strategy'] ?? DEFAULT_CRAWL_CONFIG.pathStrategy;
+  if (pathStrategy !== 'mirror' && pathStrategy !== 'hash') {
+    throw new Error(`Unknown path strategy "${pathStrategy}"`);
+  }
+
+  const thirdParty = (values['third-party'] ?? DEFAULT_CRAWL_RULES.thirdParty) as ThirdPartyPolicy;
+  if (!(thirdParty in THIRD_PARTY_POLICY_LABELS)) {
+    throw new Error(`Unknown third-party policy "${thirdParty}"`);
+  }
+  const assetTypes = { ...DEFAULT_CRAWL_RULES.assetTypes };
+  for (const type of values['skip-type'] ?? []) {
+    if (!(type in ASSET_TYPE_LABELS)) throw new Error(`Unknown asset type "${type}"`);
+    assetTypes[type as Asset['type']] = false;
+  }
+
+  const transforms = { ...DEFAULT_POST_PROCESSING.transforms };
+  for (const [option, enabled] of [['transform', true], ['skip-transform', false]] as const) {
+    for (const id of values[option] ?? []) {
+      if (!(id in POST_PROCESS_LABELS)) throw new Error(`Unknown transform "${id}"`);
+      transforms[id as PostProcessTransform] = enabled;
+    }
+  }
+  const integrity = (values.integrity ?? DEFAULT_POST_PROCESSING.integrity) as IntegrityMode;
+  if (!(integrity in INTEGRITY_MODE_LABELS)) {
+    throw new Error(`Unknown integrity mode "${integrity}"`);
+  }
+
+  if (values.since && Number.isNaN(Date.parse(values.since))) {
+    throw new Error(`--since expects a date such as 2024-01-31, got "${values.since}"`);
+  }
+
+  const authProfiles: AuthProfile[] = [];
+  if (values['auth-profiles']) {
+    const profiles = JSON.parse(await readFile(values['auth-profiles'], 'utf8'));
+    if (!Array.isArray(profiles)) throw new Error(`${values['auth-profiles']} must contain a JSON array of profiles`);
+    authProfiles.push(...profiles.map((profile: Partial<AuthProfile>) => createAuthProfile(profile)));
+  }
+  for (const line of values.header ?? []) {
+    if (!/^[^:]*[^:\s][^:]*:/.test(line)) throw new Error(`--header expects "Name: value", got "${line}"`);
+  }
+  if (values.header || values.cookie || values['basic-auth']) {
+    const [username, ...password] = (values['basic-auth'] ?? '').split(':');
+    // Listed first so the flags win over a profile file covering the same host
+    authProfiles.unshift(createAuthProfile({
+      name: 'command line',
+      hostPattern: new URL(url).hostname,
+      headers: parseHeaderLines(values.header ?? []),
+      cookies: values.cookie ?? '',
+      username,
+      password: password.join(':'),
+    }));
+  }
+
+  const host = new URL(url).hostname.replace(/[^a-z0-9]/gi, '_');
+  const format = values.format ?? inferFormat(values.output);
+  if (!['zip', 'dir', 'warc', 'html'].includes(format)) {
+    throw new Error(`Unknown format "${format}"`);
+  }
+  const output = values.output
+    ?? (format === 'dir' ? `${host}_source` : `${host}_source${OUTPUT_FORMAT_EXTENSIONS[format as OutputFormat]}`);
+  const memoryBudget = parseIntOption(values['memory-budget'], 'memory-budget', DEFAULT_CRAWL_CONFIG.memoryBudget / 1024 / 1024) * 1024 * 1024;
+  const sink = format === 'zip' ? new ZipFileSink(output, memoryBudget)
+    : format === 'dir' ? new DirectorySink(output)
+    : new FileSink(output);
+
+  const crawler = new Crawler({
+    url,
+    maxDepth: parseIntOption(values.depth, 'depth', DEFAULT_CRAWL_CONFIG.maxDepth),
+    maxPages: parseIntOption(values['max-pages'], 'max-pages', DEFAULT_CRAWL_CONFIG.maxPages),
+    scope,
+    allowedHosts: values['allow-host'] ?? [],
+    concurrency: parseIntOption(values.concurrency, 'concurrency', DEFAULT_CRAWL_CONFIG.concurrency),
+    maxRetries: parseIntOption(values.retries, 'retries', DEFAULT_CRAWL_CONFIG.maxRetries),
+    requestTimeout: parseIntOption(values.timeout, 'timeout', DEFAULT_CRAWL_CONFIG.requestTimeout / 1000) * 1000,
+    hostRateLimit: parseIntOption(values.rate, 'rate', DEFAULT_CRAWL_CONFIG.hostRateLimit),
+    pathStrategy,
+    rules: {
+      include: values.include ?? [],
+      exclude: values.exclude ?? [],
+      assetTypes,
+      maxAssetSize: parseIntOption(values['max-asset-size'], 'max-asset-size', 0) * 1024 * 1024,
+      maxTotalSize: parseIntOption(values['max-total-size'], 'max-total-size', 0) * 1024 * 1024,
+      thirdParty,
+    },
+    useSitemap: values.sitemap ?? false,
+    sitemapSince: values.since ?? '',
+    respectRobots: !values['ignore-robots'],
+    userAgent: values['user-agent'],
+    postProcessing: { transforms, integrity },
+    authProfiles,
+    strictLinkCheck: values['strict-links'] ?? false,
+    maxMissingRefs: parseIntOption(values['max-missing'], 'max-missing', DEFAULT_CRAWL_CONFIG.maxMissingRefs),
+    memoryBudget,
+    outputFormat: format === 'dir' ? 'zip' : format as OutputFormat,
+    transport: {
+      kind: transportKind,
+      proxyTemplate: values['proxy-template'] ?? DEFAULT_TRANSPORT.proxyTemplate,
+      localServerUrl: values['proxy-url'] ?? DEFAULT_TRANSPORT.localServerUrl,
+    },
+    htmlAdapter: nodeHtmlAdapter,
+    sink,
+    replay,
+    onLog: (entry) => {
+      if (values.quiet && (entry.level === LogLevel.INFO || entry.level === LogLevel.SUCCESS)) return;
+      process.stdout.write(formatLog(entry) + '\n');
+    },
+    onStatsUpdate: () => {},
+  });
+
+  // Ctrl+C stops the crawl but still writes out what was collected
+  process.once('SIGINT', () => crawler.cancel());
+
+  try {
+    await crawler.start();
+    return 0;
+  } catch (error) {
+    if (error instanceof CrawlCancelledError) {
+      await crawler.downloadPartial();
+      return 130;
+    }
+    return 1;
+  }
+};
+
+main().then(
+  (code) => { process.exitCode = code; },
+  (error) => {
+    process.stderr.write(`siteripper: ${error.message}\n`);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { browserHtmlAdapter } from '../services/adapters/browser';
+import { ArchiveFileInfo, ArchiveFiles, ArchivePreview, PREVIEW_LINK_ATTRIBUTE, findEntryPage, listArchiveFiles } from '../services/preview';
+import { formatBytes } from '../utils/format';
+
+interface ArchivePreviewPanelProps {
+  files: ArchiveFiles;
+  filename: string;
+  savedToDisk: boolean; // Already written to a file the user picked, so there is nothing to download
+  onDownload: () => void;
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  size: number;
+  fileCount: number;
+  children: Map<string, TreeNode>;
+  file?: ArchiveFileInfo;
+}
+
+const buildTree = (files: ArchiveFileInfo[]): TreeNode => {
+  const root: TreeNode = { name: '', path: '', size: 0, fileCount: 0, children: new Map() };
+  for (const file of files) {
+    let node = root;
+    const segments = file.path.split('/');
+    segments.forEach((segment, i) => {
+      node.size += file.size;
+      node.fileCount++;
+      let child = node.children.get(segment);
+      if (!child) {
+        child = { name: segment, path: segments.slice(0, i + 1).join('/'), size: 0, fileCount: 0, children: new Map() };
+        node.children.set(segment, child);
+      }
+      node = child;
+    });
+    node.size = file.size;
+    node.fileCount = 1;
+    node.file = file;
+  }
+  return root;
+};
+
+// Folders first, then files, each alphabetically
+const sortNodes = (nodes: Iterable<TreeNode>): TreeNode[] =>
+  Array.from(nodes).sort((a, b) => Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name));
+
+const getFileIcon = (mimeType: string): string => {
+  if (mimeType === 'text/html') return 'fa-file-code';
+  if (mimeType.startsWith('image/')) return 'fa-file-image';
+  if (mimeType.startsWith('audio/')) return 'fa-file-audio';
+  if (mimeType.startsWith('video/')) return 'fa-file-video';
+  if (mimeType === 'application/pdf') return 'fa-file-pdf';
+  if (mimeType.startsWith('text/') || mimeType.includes('json')) return 'fa-file-alt';
+  return 'fa-file';
+};
+
+const ArchivePreviewPanel: React.FC<ArchivePreviewPanelProps> = ({ files, filename, savedToDisk, onDownload }) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const preview = useMemo(() => new ArchivePreview(files, browserHtmlAdapter), [files]);
+  const fileList = useMemo(() => listArchiveFiles(files), [files]);
+  const tree = useMemo(() => buildTree(fileList), [fileList]);
+  const [currentPath, setCurrentPath] = useState<string | null>(null);
+  const [frameUrl, setFrameUrl] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const open = async (path: string) => {
+    setCurrentPath(path);
+    setNotice(null);
+    try {
+      setFrameUrl(await preview.getUrl(path));
+    } catch (e: any) {
+      setFrameUrl(null);
+      setNotice(`Could not render ${path}: ${e.message}`);
+    }
+  };
+
+  useEffect(() => {
+    const entry = findEntryPage(files);
+    setFrameUrl(null);
+    setCurrentPath(null);
+    if (entry) open(entry);
+    return () => preview.dispose();
+  }, [preview]);
+
+  // Scripts are off inside the frame, so links are followed from here
+  const handleFrameLoad = () => {
+    const doc = frameRef.current?.contentDocument;
+    if (!doc) return;
+    doc.addEventListener('click', (e: MouseEvent) => {
+      const link = (e.target as Element | null)?.closest?.('a[href], area[href]');
+      if (!link) return;
+      const target = link.getAttribute(PREVIEW_LINK_ATTRIBUTE);
+      const href = link.getAttribute('href') || '';
+      if (target) {
+        e.preventDefault();
+        open(target);
+      } else if (!href.startsWith('#')) {
+        e.preventDefault();
+        setNotice(`${href} is not part of the archive.`);
+      }
+    });
+  };
+
+  const labelClass = "text-slate-400 text-xs uppercase font-bold tracking-wider";
+
+  const renderNode = (node: TreeNode, depth: number): React.ReactNode => {
+    if (node.file) {
+      const { path, size, mimeType } = node.file;
+      return (
+        <button
+          key={path}
+          onClick={() => open(path)}
+          className={`w-full flex items-center gap-2 px-2 py-1 rounded text-left text-xs hover:bg-slate-700/60 transition
+            ${path === currentPath ? 'bg-cyan-500/10 text-cyan-300' : 'text-slate-300'}`}
+          style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          title={path}
+        >
+          <i className={`fas ${getFileIcon(mimeType)} w-4 text-slate-500`}></i>
+          <span className="flex-1 truncate font-mono">{node.name}</span>
+          <span className="text-slate-500 hidden md:inline">{mimeType}</span>
+          <span className="text-slate-400 whitespace-nowrap w-16 text-right">{formatBytes(size, 1)}</span>
+        </button>
+      );
+    }
+    return (
+      <details key={node.path} open={depth === 0}>
+        <summary
+          className="flex items-center gap-2 px-2 py-1 rounded cursor-pointer select-none text-xs text-slate-300 hover:bg-slate-700/60"
+          style={{ paddingLeft: `${depth * 12 + 8}px` }}
+        >
+          <i className="fas fa-folder w-4 text-yellow-500/80"></i>
+          <span className="flex-1 truncate font-mono">{node.name}</span>
+          <span className="text-slate-500">{node.fileCount} files</span>
+          <span className="text-slate-400 whitespace-nowrap w-16 text-right">{formatBytes(node.size, 1)}</span>
+        </summary>
+        {sortNodes(node.children.values()).map(child => renderNode(child, depth + 1))}
+      </details>
+    );
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 shadow-lg border border-slate-700 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <div className={labelClass}>Preview</div>
+          <div className="text-sm text-slate-300 mt-1">
+            <span className="font-mono">{filename}</span> &bull; {fileList.length} files &bull; {formatBytes(tree.size)}
+          </div>
+        </div>
+        {savedToDisk ? (
+          <span className="text-sm text-green-400 flex items-center gap-2">
+            <i className="fas fa-check-circle"></i> Saved to disk
+          </span>
+        ) : (
+          <button
+            onClick={onDownload}
+            className="px-5 py-2 rounded-lg font-bold bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-400 hover:to-blue-500 text-white transition flex items-center gap-2"
+          >
+            <i className="fas fa-download"></i> Download
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+        <div className="lg:col-span-2 max-h-[32rem] overflow-y-auto bg-slate-900/60 rounded-lg border border-slate-700 py-2">
+          {sortNodes(tree.children.values()).map(node => renderNode(node, 0))}
+        </div>
+        <div className="lg:col-span-3 flex flex-col gap-2">
+          <div className="flex items-center gap-2 px-3 py-2 bg-slate-900/60 rounded-lg border border-slate-700 text-xs text-slate-400 font-mono">
+            <i className="fas fa-lock text-slate-500"></i>
+            <span className="truncate">{currentPath ?? 'No page to render'}</span>
+          </div>
+          {/* No allow-scripts: archived scripts must not run next to the app and its stored settings */}
+          <iframe
+            ref={frameRef}
+            src={frameUrl ?? 'about:blank'}
+            sandbox="allow-same-origin"
+            onLoad={handleFrameLoad}
+            title="Archive preview"
+            className="w-full h-[28rem] bg-white rounded-lg border border-slate-700"
+          />
+          {notice && <div className="text-xs text-yellow-300">{notice}</div>}
+          <p className="text-xs text-slate-500">
+            Files are served from the archive in memory; nothing is fetched from the network. Scripts do not run in the preview.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchivePreviewPanel;
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { AuthProfile, TransportKind } from '../types';
+import { createAuthProfile, formatHeaderLines, parseHeaderLines } from '../services/auth';
+
+interface AuthProfilesPanelProps {
+  profiles: AuthProfile[];
+  transport: TransportKind;
+  onChange: (profiles: AuthProfile[]) => void;
+  disabled?: boolean;
+}
+
+interface HeadersInputProps {
+  headers: Record<string, string>;
+  onChange: (headers: Record<string, string>) => void;
+  className: string;
+  disabled?: boolean;
+}
+
+// Keeps the raw text so a line still being typed ("X-Api-Key" before the colon) is not dropped
+const HeadersInput: React.FC<HeadersInputProps> = ({ headers, onChange, className, disabled }) => {
+  const [text, setText] = useState(() => formatHeaderLines(headers));
+  return (
+    <textarea
+      rows={2}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseHeaderLines(e.target.value.split('\n')));
+      }}
+      placeholder={'X-Api-Key: ...\nX-Preview-Token: ...'}
+      className={className}
+      disabled={disabled}
+    />
+  );
+};
+
+const AuthProfilesPanel: React.FC<AuthProfilesPanelProps> = ({ profiles, transport, onChange, disabled }) => {
+  const update = (id: string, patch: Partial<AuthProfile>) =>
+    onChange(profiles.map(profile => profile.id === id ? { ...profile, ...patch } : profile));
+
+  const labelClass = "text-slate-400 text-xs uppercase font-bold tracking-wider";
+  const inputClass = "w-full mt-1 px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-white outline-none transition disabled:opacity-50";
+
+  return (
+    <details className="mt-4 bg-slate-900/40 rounded-lg border border-slate-700">
+      <summary className="px-4 py-3 cursor-pointer select-none text-sm text-slate-300 font-bold">
+        <i className="fas fa-key mr-2 text-cyan-400"></i>Auth Profiles
+        {profiles.length > 0 && <span className="ml-2 text-xs text-slate-500 font-normal">{profiles.filter(p => p.enabled).length} enabled</span>}
+      </summary>
+      <div className="px-4 pb-4 space-y-4">
+        {transport === 'public' && profiles.length > 0 && (
+          <div className="text-xs text-yellow-300 bg-yellow-500/10 border border-yellow-600/40 rounded-lg px-3 py-2">
+            <i className="fas fa-exclamation-triangle mr-2"></i>
+            Profiles are never sent through public CORS proxies. Pick another transport to apply them.
+          </div>
+        )}
+        {profiles.map(profile => (
+          <div key={profile.id} className="p-3 rounded-lg border border-slate-700 bg-slate-800/40 grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="block">
+              <span className={labelClass}>Name</span>
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => update(profile.id, { name: e.target.value })}
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Hosts</span>
+              <input
+                type="text"
+                value={profile.hostPattern}
+                onChange={(e) => update(profile.id, { hostPattern: e.target.value })}
+                placeholder="staging.example.com, *.preview.example.com"
+                className={`${inputClass} font-mono text-sm placeholder-slate-500`}
+                disabled={disabled}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Basic Auth User</span>
+              <input
+                type="text"
+                value={profile.username}
+                onChange={(e) => update(profile.id, { username: e.target.value })}
+                autoComplete="off"
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Basic Auth Password</span>
+              <input
+                type="password"
+                value={profile.password}
+                onChange={(e) => update(profile.id, { password: e.target.value })}
+                autoComplete="new-password"
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Cookies</span>
+              <input
+                type="text"
+                value={profile.cookies}
+                onChange={(e) => update(profile.id, { cookies: e.target.value })}
+                placeholder="session=...; csrftoken=..."
+                className={`${inputClass} font-mono text-sm placeholder-slate-500`}
+                disabled={disabled}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>User-Agent</span>
+              <input
+                type="text"
+                value={profile.userAgent}
+                onChange={(e) => update(profile.id, { userAgent: e.target.value })}
+                placeholder="Transport default"
+                className={`${inputClass} placeholder-slate-500`}
+                disabled={disabled}
+              />
+            </label>
+            <label className="block md:col-span-2">
+              <span className={labelClass}>Extra Headers</span>
+              <HeadersInput
+                headers={profile.headers}
+                onChange={(headers) => update(profile.id, { headers })}
+                className={`${inputClass} font-mono text-sm placeholder-slate-500`}
+                disabled={disabled}
+              />
+            </label>
+            <div className="md:col-span-2 flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={profile.enabled}
+                  onChange={(e) => update(profile.id, { enabled: e.target.checked })}
+                  className="accent-cyan-500"
+                  disabled={disabled}
+                />
+                Enabled
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-300" title="Otherwise header values, cookies and the password are forgotten when the page is closed">
+                <input
+                  type="checkbox"
+                  checked={profile.remember}
+                  onChange={(e) => update(profile.id, { remember: e.target.checked })}
+                  className="accent-cyan-500"
+                  disabled={disabled}
+                />
+                Remember secrets in this browser
+              </label>
+              <button
+                onClick={() => onChange(profiles.filter(p => p.id !== profile.id))}
+                className="text-xs text-red-400 hover:text-red-300 transition disabled:opacity-50"
+                disabled={disabled}
+              >
+                <i className="fas fa-trash mr-1"></i>Remove
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange([...profiles, createAuthProfile({ name: `Profile ${profiles.length + 1}` })])}
+          className="px-3 py-2 rounded-lg text-sm font-bold bg-slate-700 hover:bg-slate-600 text-slate-200 transition disabled:opacity-50"
+          disabled={disabled}
+        >
+          <i className="fas fa-plus mr-2"></i>Add profile
+        </button>
+        <p className="text-xs text-slate-500">
+          The first enabled profile whose hosts match is sent with every request to that host, including robots.txt and sitemaps.
+          Browsers do not let pages set <code>Cookie</code> or <code>User-Agent</code>, so use the local proxy server for those.
+          Header values, cookies and passwords are only kept for this session unless a profile is set to remember them; names, hosts
+          and usernames are saved with the other settings. Secrets are redacted from logs, <code>manifest.json</code> and the crawl history.
+        </p>
+      </div>
+    </details>
+  );
+};
+
+export default AuthProfilesPanel;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { AppState } from '../types';
+import { BrowserOutputSink } from '../services/adapters/browser';
+import { CrawlJob, MAX_PARALLEL_JOBS, isJobSettled, parseUrlList } from '../services/jobs';
+import { formatBytes, formatDuration } from '../utils/format';
+import Terminal from './Terminal';
+
+interface BatchPanelProps {
+  jobs: CrawlJob<BrowserOutputSink>[];
+  parallelJobs: number;
+  onParallelJobsChange: (parallel: number) => void;
+  onQueue: (urls: string[]) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearSettled: () => void;
+}
+
+export const JOB_STATE_LABELS: Record<AppState, string> = {
+  [AppState.IDLE]: 'Queued',
+  [AppState.CRAWLING]: 'Crawling',
+  [AppState.PROCESSING]: 'Processing',
+  [AppState.COMPRESSING]: 'Compressing',
+  [AppState.PAUSED]: 'Paused',
+  [AppState.CANCELLED]: 'Cancelled',
+  [AppState.FINISHED]: 'Finished',
+  [AppState.ERROR]: 'Failed',
+};
+
+export const JOB_STATE_CLASSES: Record<AppState, string> = {
+  [AppState.IDLE]: 'text-slate-400',
+  [AppState.CRAWLING]: 'text-cyan-400',
+  [AppState.PROCESSING]: 'text-cyan-400',
+  [AppState.COMPRESSING]: 'text-cyan-400',
+  [AppState.PAUSED]: 'text-yellow-400',
+  [AppState.CANCELLED]: 'text-yellow-400',
+  [AppState.FINISHED]: 'text-green-400',
+  [AppState.ERROR]: 'text-red-400',
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ jobs, parallelJobs, onParallelJobsChange, onQueue, onCancel, onRemove, onClearSettled }) => {
+  const [text, setText] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [openLogs, setOpenLogs] = useState<string | null>(null);
+
+  const { urls, rejected } = parseUrlList(text);
+  const running = jobs.filter(job => job.state !== AppState.IDLE && !isJobSettled(job)).length;
+  const queued = jobs.filter(job => job.state === AppState.IDLE).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    setText(prev => (prev.trim() ? `${prev.trimEnd()}\n` : '') + content);
+    setNotice(`Loaded ${file.name}.`);
+  };
+
+  const handleQueue = () => {
+    onQueue(urls);
+    setText('');
+    setNotice(`Queued ${urls.length} ${urls.length === 1 ? 'URL' : 'URLs'}.${rejected.length > 0 ? ` Skipped ${rejected.length} lines without a URL.` : ''}`);
+  };
+
+  const labelClass = "text-slate-400 text-xs uppercase font-bold tracking-wider";
+  const inputClass = "w-full mt-1 px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-white outline-none transition disabled:opacity-50";
+  const buttonClass = "px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-sm text-white transition disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <details className="bg-slate-800/50 rounded-lg border border-slate-700">
+      <summary className="px-4 py-3 cursor-pointer select-none flex items-center justify-between text-sm">
+        <span className="text-slate-300 font-bold">
+          <i className="fas fa-layer-group mr-2 text-cyan-400"></i>Batch Queue
+        </span>
+        <span className="text-slate-400">{running} running &bull; {queued} queued &bull; {jobs.length} jobs</span>
+      </summary>
+      <div className="px-4 pb-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <label className="block md:col-span-3">
+            <span className={labelClass}>URLs</span>
+            <textarea
+              rows={4}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={'https://example.com\nhttps://example.org/docs/'}
+              className={`${inputClass} font-mono text-sm placeholder-slate-500`}
+            />
+          </label>
+          <div className="space-y-3">
+            <label className="block">
+              <span className={labelClass}>Parallel Jobs</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_PARALLEL_JOBS}
+                value={parallelJobs}
+                onChange={(e) => onParallelJobsChange(Math.min(MAX_PARALLEL_JOBS, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                className={inputClass}
+              />
+            </label>
+            <label className={`${buttonClass} block text-center cursor-pointer`}>
+              <i className="fas fa-file-upload mr-1"></i> Load .txt / .csv
+              <input type="file" accept=".txt,.csv,text/plain,text/csv" onChange={handleFile} className="hidden" />
+            </label>
+            <button
+              onClick={handleQueue}
+              disabled={urls.length === 0}
+              className="w-full px-3 py-2 rounded-lg font-bold bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-400 hover:to-blue-500 text-white transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <i className="fas fa-plus mr-1"></i> Queue {urls.length || ''}
+            </button>
+          </div>
+        </div>
+        {notice && <div className="text-xs text-slate-400">{notice}</div>}
+
+        {jobs.length > 0 && (
+          <div className="space-y-2">
+            {jobs.map(job => {
+              const settled = isJobSettled(job);
+              const output = job.state === AppState.FINISHED ? job.sink : null;
+              return (
+                <div key={job.id} className="p-3 rounded-lg border border-slate-700 bg-slate-900/40 space-y-2">
+                  <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <span className={`font-bold w-24 ${JOB_STATE_CLASSES[job.state]}`}>{JOB_STATE_LABELS[job.state]}</span>
+                    <span className="flex-1 font-mono text-slate-300 break-all">{job.url}</span>
+                    <div className="flex gap-2">
+                      <button onClick={() => setOpenLogs(openLogs === job.id ? null : job.id)} className={buttonClass}>
+                        <i className="fas fa-terminal mr-1"></i> Logs
+                      </button>
+                      {output?.archive && !output.savedToDisk && (
+                        <button onClick={() => output.download()} className={buttonClass}>
+                          <i className="fas fa-download mr-1"></i> Download
+                        </button>
+                      )}
+                      {settled ? (
+                        <button onClick={() => onRemove(job.id)} className={buttonClass}>
+                          <i className="fas fa-times mr-1"></i> Remove
+                        </button>
+                      ) : (
+                        <button onClick={() => onCancel(job.id)} disabled={job.state === AppState.COMPRESSING} className={buttonClass}>
+                          <i className="fas fa-stop mr-1"></i> Cancel
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {job.state !== AppState.IDLE && (
+                    <>
+                      <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full transition-all duration-500 ${job.state === AppState.ERROR ? 'bg-red-500' : 'bg-cyan-500'}`}
+                          style={{ width: `${Math.round((job.state === AppState.FINISHED ? 1 : job.stats.progress) * 100)}%` }}
+                        ></div>
+                      </div>
+                      <div className="text-xs text-slate-400">
+                        {job.stats.pagesScanned} pages &bull; {job.stats.assetsDownloaded} assets &bull; {formatBytes(job.stats.totalSize)}
+                        {job.stats.failed > 0 && <> &bull; <span className="text-red-400">{job.stats.failed} failed</span></>}
+                        {job.stats.elapsed > 0 && <> &bull; {formatDuration(job.stats.elapsed)}</>}
+                        {job.error && <> &bull; <span className="text-red-400">{job.error}</span></>}
+                      </div>
+                    </>
+                  )}
+                  {openLogs === job.id && <Terminal logs={job.logs} />}
+                </div>
+              );
+            })}
+            <button onClick={onClearSettled} disabled={!jobs.some(isJobSettled)} className={buttonClass}>
+              <i className="fas fa-broom mr-1"></i> Clear Finished
+            </button>
+          </div>
+        )}
+        <p className="text-xs text-slate-500">
+          One URL per line, or a CSV file with a URL in each row. Jobs use the settings above as they were when queued, except HAR replay
+          and streaming to disk. Their output stays in memory until the job is removed; every job that ran is recorded in the crawl history.
+        </p>
+      </div>
+    </details>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,91 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CachedResponse } from '../types';
+import { IndexedDbCache } from '../services/cache';
+import { formatBytes } from '../utils/format';
+
+interface CachePanelProps {
+  cache: IndexedDbCache;
+  refreshKey: unknown; // Reloads the listing whenever this changes, e.g. after a crawl
+  disabled?: boolean;
+}
+
+const CachePanel: React.FC<CachePanelProps> = ({ cache, refreshKey, disabled }) => {
+  const [entries, setEntries] = useState<CachedResponse[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const list = await cache.list();
+      setEntries(list.sort((a, b) => b.storedAt - a.storedAt));
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message ?? 'IndexedDB is not available');
+    }
+  }, [cache]);
+
+  useEffect(() => {
+    reload();
+  }, [reload, refreshKey]);
+
+  const handleClear = async () => {
+    await cache.clear();
+    await reload();
+  };
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  return (
+    <details className="bg-slate-800/50 rounded-lg border border-slate-700">
+      <summary className="px-4 py-3 cursor-pointer select-none flex items-center justify-between text-sm">
+        <span className="text-slate-300 font-bold">
+          <i className="fas fa-database mr-2 text-cyan-400"></i>Response Cache
+        </span>
+        <span className="text-slate-400">{entries.length} entries &bull; {formatBytes(totalSize)}</span>
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        {error && <div className="text-red-400 text-sm">{error}</div>}
+        <div className="flex gap-2">
+          <button
+            onClick={reload}
+            className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-sm text-white transition"
+          >
+            <i className="fas fa-sync-alt mr-1"></i> Refresh
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={disabled || entries.length === 0}
+            className="px-3 py-1.5 rounded bg-red-600 hover:bg-red-500 text-sm text-white transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <i className="fas fa-trash mr-1"></i> Clear Cache
+          </button>
+        </div>
+        {entries.length > 0 && (
+          <div className="max-h-64 overflow-y-auto terminal-scroll">
+            <table className="w-full text-xs font-mono">
+              <thead className="text-slate-400 text-left sticky top-0 bg-slate-800">
+                <tr>
+                  <th className="py-1 pr-2">URL</th>
+                  <th className="py-1 pr-2">Size</th>
+                  <th className="py-1 pr-2">Validator</th>
+                  <th className="py-1">Stored</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-300">
+                {entries.map(entry => (
+                  <tr key={entry.url} className="border-t border-slate-700/50">
+                    <td className="py-1 pr-2 break-all">{entry.url}</td>
+                    <td className="py-1 pr-2 whitespace-nowrap">{formatBytes(entry.size)}</td>
+                    <td className="py-1 pr-2 whitespace-nowrap">{entry.etag ? 'ETag' : 'Last-Modified'}</td>
+                    <td className="py-1 whitespace-nowrap">{new Date(entry.storedAt).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default CachePanel;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Asset, CrawlRules, ThirdPartyPolicy } from '../types';
+import { ASSET_TYPE_LABELS, THIRD_PARTY_POLICY_LABELS } from '../services/rules';
+
+interface CrawlRulesPanelProps {
+  rules: CrawlRules;
+  onChange: (rules: CrawlRules) => void;
+  disabled?: boolean;
+}
+
+const MB = 1024 * 1024;
+
+const parsePatterns = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const CrawlRulesPanel: React.FC<CrawlRulesPanelProps> = ({ rules, onChange, disabled }) => {
+  const update = (patch: Partial<CrawlRules>) => onChange({ ...rules, ...patch });
+
+  const labelClass = "text-slate-400 text-xs uppercase font-bold tracking-wider";
+  const inputClass = "w-full mt-1 px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-white outline-none transition disabled:opacity-50";
+
+  return (
+    <details className="mt-4 bg-slate-900/40 rounded-lg border border-slate-700">
+      <summary className="px-4 py-3 cursor-pointer select-none text-sm text-slate-300 font-bold">
+        <i className="fas fa-filter mr-2 text-cyan-400"></i>Crawl Rules
+      </summary>
+      <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block">
+          <span className={labelClass}>Include URLs</span>
+          <textarea
+            rows={3}
+            value={rules.include.join('\n')}
+            onChange={(e) => update({ include: parsePatterns(e.target.value) })}
+            placeholder={'https://example.com/docs/**\n/\\.(css|js)$/'}
+            className={`${inputClass} font-mono text-sm placeholder-slate-500`}
+            disabled={disabled}
+          />
+        </label>
+        <label className="block">
+          <span className={labelClass}>Exclude URLs</span>
+          <textarea
+            rows={3}
+            value={rules.exclude.join('\n')}
+            onChange={(e) => update({ exclude: parsePatterns(e.target.value) })}
+            placeholder={'**/*.mp4\n/google-analytics|googletagmanager/'}
+            className={`${inputClass} font-mono text-sm placeholder-slate-500`}
+            disabled={disabled}
+          />
+        </label>
+        <div className="md:col-span-2">
+          <span className={labelClass}>Asset Types</span>
+          <div className="mt-2 flex flex-wrap gap-4">
+            {(Object.keys(ASSET_TYPE_LABELS) as Asset['type'][]).map(type => (
+              <label key={type} className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={rules.assetTypes[type]}
+                  onChange={(e) => update({ assetTypes: { ...rules.assetTypes, [type]: e.target.checked } })}
+                  className="accent-cyan-500"
+                  disabled={disabled}
+                />
+                {ASSET_TYPE_LABELS[type]}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:col-span-2">
+          <label className="block">
+            <span className={labelClass}>Max Asset Size (MB)</span>
+            <input
+              type="number"
+              min={0}
+              value={rules.maxAssetSize / MB}
+              onChange={(e) => update({ maxAssetSize: Math.max(0, parseFloat(e.target.value) || 0) * MB })}
+              placeholder="0 = unlimited"
+              className={`${inputClass} placeholder-slate-500`}
+              disabled={disabled}
+            />
+          </label>
+          <label className="block">
+            <span className={labelClass}>Archive Budget (MB)</span>
+            <input
+              type="number"
+              min={0}
+              value={rules.maxTotalSize / MB}
+              onChange={(e) => update({ maxTotalSize: Math.max(0, parseFloat(e.target.value) || 0) * MB })}
+              placeholder="0 = unlimited"
+              className={`${inputClass} placeholder-slate-500`}
+              disabled={disabled}
+            />
+          </label>
+          <label className="block">
+            <span className={labelClass}>Third-Party Assets</span>
+            <select
+              value={rules.thirdParty}
+              onChange={(e) => update({ thirdParty: e.target.value as ThirdPartyPolicy })}
+              className={inputClass}
+              disabled={disabled}
+            >
+              {(Object.keys(THIRD_PARTY_POLICY_LABELS) as ThirdPartyPolicy[]).map(policy => (
+                <option key={policy} value={policy}>{THIRD_PARTY_POLICY_LABELS[policy]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="md:col-span-2 text-xs text-slate-500">
+          One pattern per line. Globs match the whole URL (<code>**</code> spans slashes, <code>*</code> does not); wrap a pattern in slashes for a regular expression.
+        </p>
+      </div>
+    </details>
+  );
+};
+
+export default CrawlRulesPanel;
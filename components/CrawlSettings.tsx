@@ -0,0 +1,296 @@
+import React from 'react';
+import { CrawlConfig, CrawlScope, OutputFormat, PathStrategy, TransportConfig, TransportKind } from '../types';
+import { TRANSPORT_LABELS } from '../services/proxy';
+import { OUTPUT_FORMAT_LABELS } from '../services/formats';
+import { canSaveToDisk } from '../services/adapters/browser';
+
+const MB = 1024 * 1024;
+
+interface CrawlSettingsProps {
+  config: CrawlConfig;
+  onChange: (config: CrawlConfig) => void;
+  disabled?: boolean;
+}
+
+const SCOPE_LABELS: Record<CrawlScope, string> = {
+  'same-host': 'Same host',
+  'same-path': 'Same path prefix',
+  'allowlist': 'Host allowlist',
+};
+
+const PATH_STRATEGY_LABELS: Record<PathStrategy, string> = {
+  'mirror': 'Mirror host & path',
+  'hash': 'Content hash names',
+};
+
+const CrawlSettings: React.FC<CrawlSettingsProps> = ({ config, onChange, disabled }) => {
+  const update = (patch: Partial<CrawlConfig>) => onChange({ ...config, ...patch });
+  const updateTransport = (patch: Partial<TransportConfig>) => update({ transport: { ...config.transport, ...patch } });
+
+  const labelClass = "text-slate-400 text-xs uppercase font-bold tracking-wider";
+  const inputClass = "w-full mt-1 px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-white outline-none transition disabled:opacity-50";
+
+  return (
+    <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+      <label className="block">
+        <span className={labelClass}>Transport</span>
+        <select
+          value={config.transport.kind}
+          onChange={(e) => updateTransport({ kind: e.target.value as TransportKind })}
+          className={inputClass}
+          disabled={disabled}
+        >
+          {(Object.keys(TRANSPORT_LABELS) as TransportKind[]).map(kind => (
+            <option key={kind} value={kind}>{TRANSPORT_LABELS[kind]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block md:col-span-3">
+        <span className={labelClass}>
+          {config.transport.kind === 'local-server' ? 'Local Server URL' : 'Proxy URL Template'}
+        </span>
+        {config.transport.kind === 'local-server' ? (
+          <input
+            type="url"
+            value={config.transport.localServerUrl}
+            onChange={(e) => updateTransport({ localServerUrl: e.target.value })}
+            placeholder="http://localhost:8787"
+            className={`${inputClass} placeholder-slate-500`}
+            disabled={disabled}
+          />
+        ) : (
+          <input
+            type="text"
+            value={config.transport.proxyTemplate}
+            onChange={(e) => updateTransport({ proxyTemplate: e.target.value })}
+            placeholder="https://proxy.example.internal/fetch?url={url}"
+            className={`${inputClass} placeholder-slate-500`}
+            disabled={disabled || config.transport.kind !== 'custom-proxy'}
+          />
+        )}
+      </label>
+      <label className="block">
+        <span className={labelClass}>Link Depth</span>
+        <input
+          type="number"
+          min={0}
+          value={config.maxDepth}
+          onChange={(e) => update({ maxDepth: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          className={inputClass}
+          disabled={disabled}
+        />
+      </label>
+      <label className="block">
+        <span className={labelClass}>Max Pages</span>
+        <input
+          type="number"
+          min={1}
+          value={config.maxPages}
+          onChange={(e) => update({ maxPages: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+          className={inputClass}
+          disabled={disabled}
+        />
+      </label>
+      <label className="block">
+        <span className={labelClass}>Scope</span>
+        <select
+          value={config.scope}
+          onChange={(e) => update({ scope: e.target.value as CrawlScope })}
+          className={inputClass}
+          disabled={disabled}
+        >
+          {(Object.keys(SCOPE_LABELS) as CrawlScope[]).map(scope => (
+            <option key={scope} value={scope}>{SCOPE_LABELS[scope]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block">
+        <span className={labelClass}>Allowed Hosts</span>
+        <input
+          type="text"
+          value={config.allowedHosts.join(', ')}
+          onChange={(e) => update({ allowedHosts: e.target.value.split(',').map(h => h.trim()) })}
+          placeholder="docs.example.com, cdn.example.com"
+          className={`${inputClass} placeholder-slate-500`}
+          disabled={disabled || config.scope !== 'allowlist'}
+        />
+      </label>
+      <label className="block">
+        <span className={labelClass}>Parallel Downloads</span>
+        <input
+          type="number"
+          min={1}
+          max={32}
+          value={config.concurrency}
+          onChange={(e) => update({ concurrency: Math.min(32, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+          className={inputClass}
+          disabled={disabled}
+        />
+      </label>
+      <label className="block">
+        <span className={labelClass}>Retries</span>
+        <input
+          type="number"
+          min={0}
+          max={10}
+          value={config.maxRetries}
+          onChange={(e) => update({ maxRetries: Math.min(10, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+          className={inputClass}
+          disabled={disabled}
+        />
+      </label>
+      <label className="block">
+        <span className={labelClass}>Timeout (s)</span>
+        <input
+          type="number"
+          min={0}
+          value={config.requestTimeout / 1000}
+          onChange={(e) => update({ requestTimeout: Math.max(0, parseInt(e.target.value, 10) || 0) * 1000 })}
+          className={inputClass}
+          disabled={disabled}
+        />
+      </label>
+      <label className="block">
+        <span className={labelClass}>Requests / s per Host</span>
+        <input
+          type="number"
+          min={0}
+          step="0.5"
+          value={config.hostRateLimit}
+          onChange={(e) => update({ hostRateLimit: Math.max(0, parseFloat(e.target.value) || 0) })}
+          placeholder="0 = unlimited"
+          className={`${inputClass} placeholder-slate-500`}
+          disabled={disabled}
+        />
+      </label>
+      <label className="block">
+        <span className={labelClass}>Output Format</span>
+        <select
+          value={config.outputFormat}
+          onChange={(e) => update({ outputFormat: e.target.value as OutputFormat })}
+          className={inputClass}
+          disabled={disabled}
+        >
+          {(Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormat[]).map(format => (
+            <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block">
+        <span className={labelClass}>ZIP Memory Budget (MB)</span>
+        <input
+          type="number"
+          min={1}
+          value={config.memoryBudget / MB}
+          onChange={(e) => update({ memoryBudget: Math.max(1, parseInt(e.target.value, 10) || 1) * MB })}
+          className={inputClass}
+          disabled={disabled || config.outputFormat !== 'zip'}
+        />
+      </label>
+      {canSaveToDisk && (
+        <label className="flex items-center gap-2 md:pt-6">
+          <input
+            type="checkbox"
+            checked={config.saveToDisk}
+            onChange={(e) => update({ saveToDisk: e.target.checked })}
+            className="accent-cyan-500"
+            disabled={disabled || config.outputFormat !== 'zip'}
+          />
+          <span className={labelClass}>Stream ZIP Straight to Disk</span>
+        </label>
+      )}
+      <label className="flex items-center gap-2 md:pt-6">
+        <input
+          type="checkbox"
+          checked={config.useCache}
+          onChange={(e) => update({ useCache: e.target.checked })}
+          className="accent-cyan-500"
+          disabled={disabled}
+        />
+        <span className={labelClass}>Reuse Cached Responses</span>
+      </label>
+      <label className="flex items-center gap-2 md:pt-6">
+        <input
+          type="checkbox"
+          checked={config.useSitemap}
+          onChange={(e) => update({ useSitemap: e.target.checked })}
+          className="accent-cyan-500"
+          disabled={disabled}
+        />
+        <span className={labelClass}>Seed from sitemap.xml</span>
+      </label>
+      <label className="block">
+        <span className={labelClass}>Sitemap Modified Since</span>
+        <input
+          type="date"
+          value={config.sitemapSince}
+          onChange={(e) => update({ sitemapSince: e.target.value })}
+          className={inputClass}
+          disabled={disabled || !config.useSitemap}
+        />
+      </label>
+      <label className="block">
+        <span className={labelClass}>Robots User-Agent</span>
+        <input
+          type="text"
+          value={config.userAgent}
+          onChange={(e) => update({ userAgent: e.target.value })}
+          placeholder="SiteRipper"
+          className={`${inputClass} placeholder-slate-500`}
+          disabled={disabled}
+        />
+      </label>
+      <label className="flex items-center gap-2 md:pt-6">
+        <input
+          type="checkbox"
+          checked={config.respectRobots}
+          onChange={(e) => update({ respectRobots: e.target.checked })}
+          className="accent-cyan-500"
+          disabled={disabled}
+        />
+        <span className={labelClass}>Respect robots.txt</span>
+        {!config.respectRobots && (
+          <span className="text-xs text-yellow-400" title="Disallow rules and crawl-delay are ignored">
+            <i className="fas fa-exclamation-triangle mr-1"></i>Overridden
+          </span>
+        )}
+      </label>
+      <label className="block">
+        <span className={labelClass}>Asset Paths</span>
+        <select
+          value={config.pathStrategy}
+          onChange={(e) => update({ pathStrategy: e.target.value as PathStrategy })}
+          className={inputClass}
+          disabled={disabled}
+        >
+          {(Object.keys(PATH_STRATEGY_LABELS) as PathStrategy[]).map(strategy => (
+            <option key={strategy} value={strategy}>{PATH_STRATEGY_LABELS[strategy]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 md:pt-6">
+        <input
+          type="checkbox"
+          checked={config.strictLinkCheck}
+          onChange={(e) => update({ strictLinkCheck: e.target.checked })}
+          className="accent-cyan-500"
+          disabled={disabled}
+        />
+        <span className={labelClass}>Strict link check</span>
+      </label>
+      <label className="block">
+        <span className={labelClass}>Max Missing References</span>
+        <input
+          type="number"
+          min={0}
+          value={config.maxMissingRefs}
+          onChange={(e) => update({ maxMissingRefs: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          className={inputClass}
+          disabled={disabled || !config.strictLinkCheck}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default CrawlSettings;
@@ -0,0 +1,62 @@
+import React, { useRef, useState } from 'react';
+import { HarReplay } from '../services/har';
+
+interface HarImportProps {
+  replay: HarReplay | null;
+  onChange: (replay: HarReplay | null) => void;
+  disabled?: boolean;
+}
+
+const HarImport: React.FC<HarImportProps> = ({ replay, onChange, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onChange(HarReplay.parse(await file.text(), file.name));
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      // Allow picking the same file again after clearing it
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".har,application/json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-white transition disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <i className="fas fa-file-import mr-1"></i> Replay from HAR
+      </button>
+      {replay && (
+        <span className="flex items-center gap-2 bg-cyan-500/10 border border-cyan-600/40 rounded px-3 py-1 text-cyan-300">
+          <i className="fas fa-compact-disc"></i>
+          {replay.name.replace(/^har:/, '')} &bull; {replay.size} recorded URLs
+          <button
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="ml-1 text-slate-400 hover:text-white disabled:opacity-50"
+            title="Stop replaying and use the network again"
+          >
+            <i className="fas fa-times"></i>
+          </button>
+        </span>
+      )}
+      {error && <span className="text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default HarImport;
@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { HistoryEntry } from '../types';
+import { IndexedDbHistory, MAX_ARCHIVES } from '../services/history';
+import { OUTPUT_FORMAT_LABELS } from '../services/formats';
+import { saveToDisk } from '../services/adapters/browser';
+import { formatBytes, formatDuration } from '../utils/format';
+import { JOB_STATE_CLASSES, JOB_STATE_LABELS } from './BatchPanel';
+
+interface HistoryPanelProps {
+  history: IndexedDbHistory;
+  refreshKey: unknown; // Reloads the listing whenever this changes, e.g. after a crawl
+  onRerun: (entry: HistoryEntry) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, refreshKey, onRerun }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setEntries(await history.list());
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message ?? 'IndexedDB is not available');
+    }
+  }, [history]);
+
+  useEffect(() => {
+    reload();
+  }, [reload, refreshKey]);
+
+  const handleDownload = async (entry: HistoryEntry) => {
+    const archive = await history.getArchive(entry.id);
+    if (!archive || !entry.filename) {
+      setError(`The output of ${entry.url} is no longer stored.`);
+      return;
+    }
+    saveToDisk(archive, entry.filename);
+  };
+
+  const handleDelete = async (id: string) => {
+    await history.delete(id);
+    await reload();
+  };
+
+  const handleClear = async () => {
+    await history.clear();
+    await reload();
+  };
+
+  const buttonClass = "px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white transition whitespace-nowrap";
+
+  return (
+    <details className="bg-slate-800/50 rounded-lg border border-slate-700">
+      <summary className="px-4 py-3 cursor-pointer select-none flex items-center justify-between text-sm">
+        <span className="text-slate-300 font-bold">
+          <i className="fas fa-history mr-2 text-cyan-400"></i>Crawl History
+        </span>
+        <span className="text-slate-400">{entries.length} crawls</span>
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        {error && <div className="text-red-400 text-sm">{error}</div>}
+        <div className="flex gap-2">
+          <button
+            onClick={reload}
+            className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-sm text-white transition"
+          >
+            <i className="fas fa-sync-alt mr-1"></i> Refresh
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="px-3 py-1.5 rounded bg-red-600 hover:bg-red-500 text-sm text-white transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <i className="fas fa-trash mr-1"></i> Clear History
+          </button>
+        </div>
+        {entries.length > 0 && (
+          <div className="max-h-96 overflow-y-auto terminal-scroll">
+            <table className="w-full text-xs">
+              <thead className="text-slate-400 text-left sticky top-0 bg-slate-800">
+                <tr>
+                  <th className="py-1 pr-2">Started</th>
+                  <th className="py-1 pr-2">URL</th>
+                  <th className="py-1 pr-2">Outcome</th>
+                  <th className="py-1 pr-2">Output</th>
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-300">
+                {entries.map(entry => (
+                  <tr key={entry.id} className="border-t border-slate-700/50 align-top">
+                    <td className="py-1 pr-2 whitespace-nowrap">
+                      {new Date(entry.startedAt).toLocaleString()}
+                      <div className="text-slate-500">{formatDuration(entry.finishedAt - entry.startedAt)}</div>
+                    </td>
+                    <td className="py-1 pr-2 font-mono break-all">
+                      {entry.url}
+                      <div className="text-slate-500 font-sans">
+                        depth {entry.options.maxDepth} &bull; max {entry.options.maxPages} pages &bull; {entry.options.scope}
+                      </div>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <span className={JOB_STATE_CLASSES[entry.outcome]}>{JOB_STATE_LABELS[entry.outcome]}</span>
+                      <div className="text-slate-500">
+                        {entry.pages} pages &bull; {entry.assets} assets{entry.failed > 0 && <> &bull; {entry.failed} failed</>}
+                      </div>
+                      {entry.error && <div className="text-red-400 break-all">{entry.error}</div>}
+                    </td>
+                    <td className="py-1 pr-2 whitespace-nowrap">
+                      {entry.size > 0 ? formatBytes(entry.size) : '–'}
+                      <div className="text-slate-500">{OUTPUT_FORMAT_LABELS[entry.options.outputFormat]}</div>
+                    </td>
+                    <td className="py-1">
+                      <div className="flex flex-wrap justify-end gap-1">
+                        <button onClick={() => onRerun(entry)} className={buttonClass} title="Queue this URL again with the same settings and the current auth profiles">
+                          <i className="fas fa-redo mr-1"></i> Re-run
+                        </button>
+                        {entry.archived && (
+                          <button onClick={() => handleDownload(entry)} className={buttonClass}>
+                            <i className="fas fa-download mr-1"></i> Download
+                          </button>
+                        )}
+                        <button onClick={() => handleDelete(entry.id)} className={buttonClass} title="Remove from history">
+                          <i className="fas fa-times"></i>
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-slate-500">
+          Every crawl is recorded in this browser with the settings it ran with. The outputs of the last {MAX_ARCHIVES} are kept so they can be
+          downloaded again; archives streamed straight to disk are not copied.
+        </p>
+      </div>
+    </details>
+  );
+};
+
+export default HistoryPanel;
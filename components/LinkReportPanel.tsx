@@ -0,0 +1,74 @@
+import React from 'react';
+import { LinkReport, LinkStatus } from '../types';
+import { LINK_STATUS_LABELS } from '../services/linkcheck';
+
+interface LinkReportPanelProps {
+  report: LinkReport | null;
+}
+
+const STATUS_CLASSES: Record<LinkStatus, string> = {
+  resolved: 'text-green-400',
+  missing: 'text-red-400',
+  remote: 'text-yellow-400',
+  data: 'text-slate-400',
+};
+
+const LinkReportPanel: React.FC<LinkReportPanelProps> = ({ report }) => {
+  if (!report) return null;
+
+  const statuses = Object.keys(LINK_STATUS_LABELS) as LinkStatus[];
+
+  return (
+    <details className="bg-slate-800/50 rounded-lg border border-slate-700">
+      <summary className="px-4 py-3 cursor-pointer select-none flex items-center justify-between text-sm">
+        <span className="text-slate-300 font-bold">
+          <i className="fas fa-link mr-2 text-cyan-400"></i>Link Check
+        </span>
+        <span className={report.counts.missing > 0 ? 'text-red-400' : 'text-slate-400'}>
+          {report.counts.missing} missing &bull; {report.counts.remote} remote
+        </span>
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+          {statuses.map(status => (
+            <div key={status} className="bg-slate-900/60 rounded-lg border border-slate-700 px-3 py-2">
+              <div className="text-slate-400 uppercase font-bold tracking-wider">{LINK_STATUS_LABELS[status]}</div>
+              <div className={`text-lg font-mono ${STATUS_CLASSES[status]}`}>{report.counts[status]}</div>
+              <div className="text-slate-500">{report.links[status]} page links</div>
+            </div>
+          ))}
+        </div>
+        {report.problems.length > 0 && (
+          <div className="max-h-64 overflow-y-auto terminal-scroll">
+            <table className="w-full text-xs font-mono">
+              <thead className="text-slate-400 text-left sticky top-0 bg-slate-800">
+                <tr>
+                  <th className="py-1 pr-2">Reference</th>
+                  <th className="py-1 pr-2">In File</th>
+                  <th className="py-1 pr-2">Kind</th>
+                  <th className="py-1">Status</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-300">
+                {report.problems.map((entry, i) => (
+                  <tr key={i} className="border-t border-slate-700/50">
+                    <td className="py-1 pr-2 break-all">{entry.url}</td>
+                    <td className="py-1 pr-2 break-all">{entry.file}</td>
+                    <td className="py-1 pr-2 whitespace-nowrap">{entry.kind === 'link' ? 'page link' : 'resource'}</td>
+                    <td className={`py-1 ${STATUS_CLASSES[entry.status]}`}>{LINK_STATUS_LABELS[entry.status]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-slate-500">
+          Checked offline against the {report.files} HTML and CSS files in the archive. Page links to pages that were not crawled are
+          listed but never fail a strict check.
+        </p>
+      </div>
+    </details>
+  );
+};
+
+export default LinkReportPanel;
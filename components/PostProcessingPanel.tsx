@@ -0,0 +1,62 @@
+import React from 'react';
+import { IntegrityMode, PostProcessing, PostProcessTransform } from '../types';
+import { INTEGRITY_MODE_LABELS, POST_PROCESS_LABELS } from '../services/postprocess';
+
+interface PostProcessingPanelProps {
+  postProcessing: PostProcessing;
+  onChange: (postProcessing: PostProcessing) => void;
+  disabled?: boolean;
+}
+
+const PostProcessingPanel: React.FC<PostProcessingPanelProps> = ({ postProcessing, onChange, disabled }) => {
+  const setTransform = (id: PostProcessTransform, enabled: boolean) =>
+    onChange({ ...postProcessing, transforms: { ...postProcessing.transforms, [id]: enabled } });
+
+  const labelClass = "text-slate-400 text-xs uppercase font-bold tracking-wider";
+  const inputClass = "w-full mt-1 px-3 py-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-white outline-none transition disabled:opacity-50";
+
+  return (
+    <details className="mt-4 bg-slate-900/40 rounded-lg border border-slate-700">
+      <summary className="px-4 py-3 cursor-pointer select-none text-sm text-slate-300 font-bold">
+        <i className="fas fa-magic mr-2 text-cyan-400"></i>Post-Processing
+      </summary>
+      <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <span className={labelClass}>Transforms</span>
+          <div className="mt-2 flex flex-col gap-2">
+            {(Object.keys(POST_PROCESS_LABELS) as PostProcessTransform[]).map(id => (
+              <label key={id} className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={postProcessing.transforms[id]}
+                  onChange={(e) => setTransform(id, e.target.checked)}
+                  className="accent-cyan-500"
+                  disabled={disabled}
+                />
+                {POST_PROCESS_LABELS[id]}
+              </label>
+            ))}
+          </div>
+        </div>
+        <label className="block">
+          <span className={labelClass}>Integrity Hashes</span>
+          <select
+            value={postProcessing.integrity}
+            onChange={(e) => onChange({ ...postProcessing, integrity: e.target.value as IntegrityMode })}
+            className={inputClass}
+            disabled={disabled || !postProcessing.transforms.integrity}
+          >
+            {(Object.keys(INTEGRITY_MODE_LABELS) as IntegrityMode[]).map(mode => (
+              <option key={mode} value={mode}>{INTEGRITY_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+          <span className="block mt-2 text-xs text-slate-500">
+            Recomputed hashes work when the archive is served over HTTP. Browsers refuse SRI checks on <code>file://</code>, so remove them for archives opened from disk.
+          </span>
+        </label>
+      </div>
+    </details>
+  );
+};
+
+export default PostProcessingPanel;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { SkippedResource } from '../types';
+
+interface SkippedPanelProps {
+  skipped: SkippedResource[];
+}
+
+const SkippedPanel: React.FC<SkippedPanelProps> = ({ skipped }) => {
+  if (skipped.length === 0) return null;
+
+  return (
+    <details className="bg-slate-800/50 rounded-lg border border-slate-700">
+      <summary className="px-4 py-3 cursor-pointer select-none flex items-center justify-between text-sm">
+        <span className="text-slate-300 font-bold">
+          <i className="fas fa-forward mr-2 text-yellow-400"></i>Skipped Resources
+        </span>
+        <span className="text-slate-400">{skipped.length} skipped</span>
+      </summary>
+      <div className="px-4 pb-4 max-h-64 overflow-y-auto terminal-scroll">
+        <table className="w-full text-xs font-mono">
+          <thead className="text-slate-400 text-left sticky top-0 bg-slate-800">
+            <tr>
+              <th className="py-1 pr-2">URL</th>
+              <th className="py-1 pr-2">Type</th>
+              <th className="py-1">Reason</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            {skipped.map(resource => (
+              <tr key={resource.url} className="border-t border-slate-700/50">
+                <td className="py-1 pr-2 break-all">{resource.url}</td>
+                <td className="py-1 pr-2 whitespace-nowrap">{resource.type}</td>
+                <td className="py-1">{resource.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+};
+
+export default SkippedPanel;
@@ -1,38 +1,112 @@
 import React from 'react';
-import { CrawlStats } from '../types';
+import { Asset, CrawlStats } from '../types';
+import { ASSET_TYPE_LABELS } from '../services/rules';
+import { formatBytes, formatDuration } from '../utils/format';
 
 interface StatsCardProps {
   stats: CrawlStats;
+  running?: boolean;
 }
 
-const StatsCard: React.FC<StatsCardProps> = ({ stats }) => {
-  const formatBytes = (bytes: number, decimals = 2) => {
-    if (!+bytes) return '0 Bytes';
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`;
-  };
+const TYPE_LABELS: Record<Asset['type'] | 'page', string> = { page: 'Pages', ...ASSET_TYPE_LABELS };
+
+const TOP_HOSTS = 5;
+
+const StatsCard: React.FC<StatsCardProps> = ({ stats, running }) => {
+  const labelClass = "text-slate-400 text-xs uppercase font-bold tracking-wider";
+
+  const types = (Object.keys(TYPE_LABELS) as (Asset['type'] | 'page')[]).filter(type => stats.byType[type]);
+  const storedBytes = types.reduce((sum, type) => sum + stats.byType[type]!.bytes, 0);
+  const hosts = (Object.entries(stats.bytesByHost) as [string, number][]).sort((a, b) => b[1] - a[1]);
+  const percent = Math.round(stats.progress * 100);
 
   return (
-    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 w-full">
-      <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
-        <div className="text-slate-400 text-xs uppercase font-bold tracking-wider">Total Assets</div>
-        <div className="text-2xl font-bold text-white mt-1">{stats.assetsFound}</div>
-      </div>
-      <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
-        <div className="text-slate-400 text-xs uppercase font-bold tracking-wider">Downloaded</div>
-        <div className="text-2xl font-bold text-cyan-400 mt-1">{stats.assetsDownloaded}</div>
-      </div>
-      <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
-        <div className="text-slate-400 text-xs uppercase font-bold tracking-wider">Pages Processed</div>
-        <div className="text-2xl font-bold text-purple-400 mt-1">{stats.pagesScanned}</div>
-      </div>
-      <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
-        <div className="text-slate-400 text-xs uppercase font-bold tracking-wider">Total Size</div>
-        <div className="text-2xl font-bold text-green-400 mt-1">{formatBytes(stats.totalSize)}</div>
+    <div className="w-full space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+          <div className={labelClass}>Total Assets</div>
+          <div className="text-2xl font-bold text-white mt-1">{stats.assetsFound}</div>
+          {(stats.failed > 0 || stats.skipped > 0) && (
+            <div className="text-xs text-slate-400 mt-1">
+              <span className={stats.failed > 0 ? 'text-red-400' : ''}>{stats.failed} failed</span> &bull; {stats.skipped} skipped
+            </div>
+          )}
+        </div>
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+          <div className={labelClass}>Downloaded</div>
+          <div className="text-2xl font-bold text-cyan-400 mt-1">{stats.assetsDownloaded}</div>
+        </div>
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+          <div className={labelClass}>Pages Processed</div>
+          <div className="text-2xl font-bold text-purple-400 mt-1">{stats.pagesScanned}</div>
+        </div>
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+          <div className={labelClass}>Total Size</div>
+          <div className="text-2xl font-bold text-green-400 mt-1">{formatBytes(stats.totalSize)}</div>
+          {stats.bytesSaved > 0 && (
+            <div className="text-xs text-slate-400 mt-1">{formatBytes(stats.bytesSaved)} reused from cache</div>
+          )}
+        </div>
       </div>
+
+      {stats.elapsed > 0 && (
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-400">
+            <span className={labelClass}>Progress {percent}%</span>
+            <span>
+              {formatDuration(stats.elapsed)} elapsed
+              {running && <> &bull; {formatBytes(stats.throughput)}/s</>}
+              {running && stats.eta !== null && <> &bull; about {formatDuration(stats.eta)} left</>}
+            </span>
+          </div>
+          <div className="mt-2 h-2 bg-slate-900 rounded-full overflow-hidden">
+            <div className="h-full bg-cyan-500 transition-all duration-500" style={{ width: `${percent}%` }}></div>
+          </div>
+
+          {types.length > 0 && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <div className={labelClass}>By Type</div>
+                <table className="w-full mt-2 text-xs text-slate-300">
+                  <tbody>
+                    {types.map(type => {
+                      const { count, bytes } = stats.byType[type]!;
+                      return (
+                        <tr key={type}>
+                          <td className="py-1 pr-2 whitespace-nowrap">{TYPE_LABELS[type]}</td>
+                          <td className="py-1 pr-2 text-right">{count}</td>
+                          <td className="py-1 pr-2 text-right whitespace-nowrap">{formatBytes(bytes)}</td>
+                          <td className="py-1 w-1/3">
+                            <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+                              <div className="h-full bg-purple-500" style={{ width: `${storedBytes ? (bytes / storedBytes) * 100 : 0}%` }}></div>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <div>
+                <div className={labelClass}>By Host</div>
+                <table className="w-full mt-2 text-xs text-slate-300">
+                  <tbody>
+                    {hosts.slice(0, TOP_HOSTS).map(([host, bytes]) => (
+                      <tr key={host}>
+                        <td className="py-1 pr-2 font-mono truncate max-w-xs" title={host}>{host}</td>
+                        <td className="py-1 text-right whitespace-nowrap">{formatBytes(bytes)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {hosts.length > TOP_HOSTS && (
+                  <div className="text-xs text-slate-500 mt-1">and {hosts.length - TOP_HOSTS} more hosts</div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+/**
+ * Minimal CORS proxy for SiteRipper.
+ *
+ *   npm run proxy            # listens on http://127.0.0.1:8787
+ *   PORT=9000 npm run proxy
+ *   ALLOWED_ORIGIN=https://ripper.example.com npm run proxy
+ *
+ * Then pick "Local proxy server" as the transport in the UI. Requests look like
+ *   GET /fetch?url=<encoded target URL>
+ *
+ * It binds to localhost by default: anything that can reach it can use it to fetch
+ * arbitrary URLs, so only set HOST=0.0.0.0 on a trusted network. Binding to
+ * localhost does not stop other websites open in the same browser from calling it,
+ * so browser requests are only answered for the origins in ALLOWED_ORIGIN
+ * (comma-separated, default: the Vite dev and preview servers). Requests without
+ * an Origin header, such as the CLI or curl, are served unless the browser marks
+ * them as coming from another site (e.g. a <script src> pointing here).
+ */
+import http from 'node:http';
+import { Readable, pipeline } from 'node:stream';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '127.0.0.1';
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGIN ||
+  'http://localhost:3000,http://127.0.0.1:3000,http://localhost:4173,http://127.0.0.1:4173')
+  .split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+
+// Request headers passed through to the upstream server
+const FORWARDED_REQUEST_HEADERS = [
+  'accept',
+  'accept-language',
+  'if-none-match',
+  'if-modified-since',
+  'range',
+  'user-agent',
+];
+
+// "X-SiteRipper-Cookie: a=1" is sent upstream as "Cookie: a=1". Browsers may not set
+// Cookie or User-Agent themselves, so auth profiles reach the origin this way.
+const FORWARDED_HEADER_PREFIX = 'x-siteripper-';
+
+// Redirects are passed back rather than followed, so the crawler can archive each hop.
+// A browser would follow a Location header itself, so it is sent under this name instead.
+const PROXIED_LOCATION_HEADER = 'x-siteripper-location';
+
+// fetch() has already decoded the body, so these would describe the wrong bytes
+const DROPPED_RESPONSE_HEADERS = [
+  'content-encoding',
+  'content-length',
+  'transfer-encoding',
+  'connection',
+  'keep-alive',
+];
+
+// Only allowed origins get CORS headers, so no other page can read a response
+const corsHeadersFor = (origin) => origin ? {
+  'access-control-allow-origin': origin,
+  'access-control-allow-methods': 'GET, OPTIONS',
+  'access-control-allow-headers': '*',
+  'access-control-expose-headers': '*',
+  'vary': 'Origin',
+} : {};
+
+// Marks errors raised here, so the app can tell them apart from the origin's own
+const PROXY_ERROR_HEADER = 'x-siteripper-proxy-error';
+
+const sendError = (res, status, message, corsHeaders = {}) => {
+  res.writeHead(status, { ...corsHeaders, 'content-type': 'text/plain; charset=utf-8', [PROXY_ERROR_HEADER]: '1' });
+  res.end(message);
+};
+
+const server = http.createServer(async (req, res) => {
+  // Any other page, including sandboxed ones ("null"), is refused before anything is fetched
+  const origin = req.headers.origin;
+  const fetchSite = req.headers['sec-fetch-site'];
+  const foreign = origin !== undefined
+    ? !ALLOWED_ORIGINS.includes(origin)
+    : fetchSite === 'cross-site' || fetchSite === 'same-site';
+  if (foreign) {
+    console.warn(`Refused request from origin ${origin ?? `unknown (${fetchSite})`}`);
+    sendError(res, 403, 'This origin is not allowed. Add it to ALLOWED_ORIGIN to use this proxy from there.');
+    return;
+  }
+  const corsHeaders = corsHeadersFor(origin);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  const requestUrl = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  if (req.method !== 'GET' || requestUrl.pathname !== '/fetch') {
+    sendError(res, 404, 'Use GET /fetch?url=<encoded URL>', corsHeaders);
+    return;
+  }
+
+  let target;
+  try {
+    target = new URL(requestUrl.searchParams.get('url') || '');
+  } catch {
+    sendError(res, 400, 'Missing or invalid "url" parameter', corsHeaders);
+    return;
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    sendError(res, 400, 'Only http and https URLs can be proxied', corsHeaders);
+    return;
+  }
+
+  const headers = {};
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === 'string') headers[name] = value;
+  }
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (name.startsWith(FORWARDED_HEADER_PREFIX) && typeof value === 'string') {
+      headers[name.slice(FORWARDED_HEADER_PREFIX.length)] = value;
+    }
+  }
+
+  try {
+    const upstream = await fetch(target, { headers, redirect: 'manual' });
+    const responseHeaders = {};
+    upstream.headers.forEach((value, name) => {
+      // The upstream server's own CORS headers must not widen who may read the response
+      if (!DROPPED_RESPONSE_HEADERS.includes(name) && !name.startsWith('access-control-')) responseHeaders[name] = value;
+    });
+    if (responseHeaders.location) {
+      responseHeaders[PROXIED_LOCATION_HEADER] = new URL(responseHeaders.location, target).href;
+      delete responseHeaders.location;
+    }
+    Object.assign(responseHeaders, corsHeaders);
+
+    res.writeHead(upstream.status, responseHeaders);
+    if (!upstream.body) {
+      res.end();
+      console.log(`${upstream.status} ${target.href}`);
+      return;
+    }
+    // The upstream connection or the client can drop mid-body; that ends this response only
+    pipeline(Readable.fromWeb(upstream.body), res, (err) => {
+      if (err) {
+        console.error(`ERR ${target.href} (after status ${upstream.status}): ${err.message}`);
+        res.destroy(err);
+      } else {
+        console.log(`${upstream.status} ${target.href}`);
+      }
+    });
+  } catch (err) {
+    console.error(`ERR ${target.href}: ${err.message}`);
+    sendError(res, 502, `Upstream fetch failed: ${err.message}`, corsHeaders);
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`SiteRipper proxy listening on http://${HOST}:${PORT}`);
+  console.log(`Accepting browser requests from ${ALLOWED_ORIGINS.join(', ')}`);
+});
@@ -0,0 +1,146 @@
+/**
+ * Browser adapters: DOMParser for HTML, CompressionStream for DEFLATE, and sinks
+ * that keep the output for the preview until the user downloads it.
+ */
+import FileSaver from 'file-saver';
+import { ArchiveEntry, HtmlAdapter, OutputSink } from '../../types';
+import { toArchiveEntry } from '../preview';
+import { Deflate, Inflate, readZip, ZipWriter } from '../zip';
+
+export const browserHtmlAdapter: HtmlAdapter = {
+  parse: (html) => new DOMParser().parseFromString(html, 'text/html'),
+  serialize: (doc) => new XMLSerializer().serializeToString(doc),
+};
+
+const transform = async (data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const browserDeflate: Deflate = (input) => input.pipeThrough(new CompressionStream('deflate-raw'));
+export const browserInflate: Inflate = (data) => transform(data, new DecompressionStream('deflate-raw'));
+
+/** True where the File System Access API lets the archive stream straight to a file */
+export const canSaveToDisk = typeof window !== 'undefined' && 'showSaveFilePicker' in window;
+
+/**
+ * Asks where to save the archive. Browsers only show the picker in response to
+ * a click, so call this before awaiting anything else. Resolves to null if the user cancels.
+ */
+export const pickSaveFile = async (suggestedName: string): Promise<FileSystemFileHandle | null> => {
+  try {
+    return await (window as any).showSaveFilePicker({
+      suggestedName,
+      types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+    });
+  } catch (e: any) {
+    if (e.name === 'AbortError') return null;
+    throw e;
+  }
+};
+
+/**
+ * Keeps the built output so it can be previewed; unless it was streamed to a
+ * file picked up front, nothing reaches the user's disk until download() is called.
+ */
+export interface BrowserOutputSink extends OutputSink {
+  readonly files: ReadonlyMap<string, ArchiveEntry>; // Everything written, by archive path
+  readonly filename: string | null; // Name of the download, set once the output is built
+  readonly savedToDisk: boolean; // The output already went to a file the user picked
+  readonly archive: Blob | null; // The built output, null until close()
+  download(): void;
+}
+
+// Fix for file-saver import issue on some CDNs
+// @ts-ignore
+export const saveToDisk: (data: Blob, filename: string) => void = FileSaver.saveAs || FileSaver;
+
+/**
+ * Streams a ZIP archive as files arrive. With a file handle the archive goes
+ * straight to that file; otherwise it is collected as a Blob, which browsers
+ * may move to disk once it grows large.
+ */
+export class ZipDownloadSink implements BrowserOutputSink {
+  files: ReadonlyMap<string, ArchiveEntry> = new Map();
+  filename: string | null = null;
+  readonly savedToDisk: boolean;
+  private writer: ZipWriter;
+  private parts: Blob[] = [];
+  private writable: Promise<FileSystemWritableFileStream> | null = null;
+  private content: Blob | null = null;
+
+  constructor(memoryBudget: number, private fileHandle: FileSystemFileHandle | null = null) {
+    this.savedToDisk = fileHandle !== null;
+    this.writer = new ZipWriter({ write: (chunk) => this.flush(chunk) }, { deflate: browserDeflate, memoryBudget });
+  }
+
+  get archive() {
+    return this.content;
+  }
+
+  write(path: string, content: Blob | string) {
+    return this.writer.add(path, content);
+  }
+
+  async close(archiveName: string, onProgress?: (done: number, total: number) => void) {
+    await this.writer.close(onProgress);
+    if (this.fileHandle) {
+      await (await this.writable!).close();
+      this.content = await this.fileHandle.getFile();
+      this.filename = this.fileHandle.name;
+    } else {
+      this.content = new Blob(this.parts, { type: 'application/zip' });
+      this.parts = [];
+      this.filename = `${archiveName}.zip`;
+    }
+    // The preview reads entries back from the finished archive as it needs them
+    this.files = await readZip(this.content, browserInflate);
+    return `${this.filename} (${this.savedToDisk ? 'saved to disk' : 'ready to preview and download'})`;
+  }
+
+  download() {
+    if (!this.content || !this.filename) throw new Error("The archive has not been built yet");
+    saveToDisk(this.content, this.filename);
+  }
+
+  private async flush(chunk: Uint8Array) {
+    if (this.fileHandle) {
+      this.writable ??= this.fileHandle.createWritable();
+      await (await this.writable).write(chunk);
+    } else {
+      this.parts.push(new Blob([chunk]));
+    }
+  }
+}
+
+/**
+ * Downloads a single file as-is. Used by formats that produce one file (WARC, single-file HTML).
+ */
+export class FileDownloadSink implements BrowserOutputSink {
+  files: ReadonlyMap<string, ArchiveEntry> = new Map();
+  filename: string | null = null;
+  readonly savedToDisk = false;
+  private content: Blob | string | null = null;
+  private path: string | null = null;
+
+  get archive() {
+    if (this.content === null || !this.filename) return null;
+    return typeof this.content === 'string' ? new Blob([this.content], { type: 'text/html;charset=utf-8' }) : this.content;
+  }
+
+  async write(path: string, content: Blob | string) {
+    this.path = path;
+    this.content = content;
+    this.files = new Map([[path, toArchiveEntry(content)]]);
+  }
+
+  async close() {
+    if (!this.path) throw new Error("Nothing was written to the output file");
+    this.filename = this.path;
+    return `${this.path} (ready to preview and download)`;
+  }
+
+  download() {
+    const archive = this.archive;
+    if (!archive) throw new Error("The output file has not been built yet");
+    saveToDisk(archive, this.filename!);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Node.js adapters used by the CLI: linkedom for HTML, zlib for DEFLATE, and
+ * sinks that write a ZIP file or a plain directory tree to disk.
+ */
+import { FileHandle, mkdir, open, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { createDeflateRaw } from 'node:zlib';
+import { parseHTML } from 'linkedom';
+import { HtmlAdapter, OutputSink } from '../../types';
+import { Deflate, ZipWriter } from '../zip';
+
+export const nodeHtmlAdapter: HtmlAdapter = {
+  parse: (html) => parseHTML(html).document as unknown as Document,
+  serialize: (doc) => doc.toString(),
+};
+
+export const nodeDeflate: Deflate = (input) =>
+  Readable.toWeb(Readable.fromWeb(input as NodeReadableStream<Uint8Array>).pipe(createDeflateRaw())) as ReadableStream<Uint8Array>;
+
+const toNodeContent = async (content: Blob | string): Promise<Uint8Array | string> =>
+  typeof content === 'string' ? content : new Uint8Array(await content.arrayBuffer());
+
+/**
+ * Streams a ZIP file to `outputPath` as files arrive.
+ */
+export class ZipFileSink implements OutputSink {
+  private writer: ZipWriter;
+  private file: Promise<FileHandle> | null = null;
+
+  constructor(private outputPath: string, memoryBudget: number) {
+    this.writer = new ZipWriter({ write: (chunk) => this.flush(chunk) }, { deflate: nodeDeflate, memoryBudget });
+  }
+
+  write(filePath: string, content: Blob | string) {
+    return this.writer.add(filePath, content);
+  }
+
+  async close(_archiveName: string, onProgress?: (done: number, total: number) => void) {
+    await this.writer.close(onProgress);
+    await (await this.file!).close();
+    return this.outputPath;
+  }
+
+  private async flush(chunk: Uint8Array) {
+    this.file ??= mkdir(path.dirname(path.resolve(this.outputPath)), { recursive: true })
+      .then(() => open(this.outputPath, 'w'));
+    const file = await this.file;
+    await file.write(chunk);
+  }
+}
+
+export class DirectorySink implements OutputSink {
+  constructor(private outputDir: string) {}
+
+  async write(filePath: string, content: Blob | string) {
+    const target = path.resolve(this.outputDir, filePath);
+    // Archive paths are generated by us, but never let one escape the output directory
+    if (!target.startsWith(path.resolve(this.outputDir) + path.sep)) {
+      throw new Error(`Refusing to write outside the output directory: ${filePath}`);
+    }
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, await toNodeContent(content));
+  }
+
+  async close() {
+    return this.outputDir;
+  }
+}
+
+/**
+ * Writes a single file to `outputPath`. Used by formats that produce one file (WARC, single-file HTML).
+ */
+export class FileSink implements OutputSink {
+  private content: Blob | string | null = null;
+
+  constructor(private outputPath: string) {}
+
+  async write(_filePath: string, content: Blob | string) {
+    this.content = content;
+  }
+
+  async close() {
+    if (this.content === null) throw new Error('Nothing was written to the output file');
+    await mkdir(path.dirname(path.resolve(this.outputPath)), { recursive: true });
+    await writeFile(this.outputPath, await toNodeContent(this.content));
+    return this.outputPath;
+  }
+}
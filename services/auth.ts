@@ -0,0 +1,137 @@
+/**
+ * Authentication profiles: extra headers, cookies, a user-agent and HTTP basic
+ * auth for the hosts matching a pattern. Credentials only travel over
+ * transports we control, and every secret is redacted from logs and the manifest.
+ */
+import { AuthProfile, TransportConfig } from '../types';
+
+export const REDACTED = '[redacted]';
+
+// Shorter values would redact ordinary words from log lines
+const MIN_SECRET_LENGTH = 4;
+
+export const createAuthProfile = (profile: Partial<AuthProfile> = {}): AuthProfile => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: 'New profile',
+  enabled: true,
+  hostPattern: '',
+  cookies: '',
+  userAgent: '',
+  username: '',
+  password: '',
+  remember: false,
+  ...profile,
+  headers: { ...profile.headers },
+});
+
+/**
+ * Public proxies are run by third parties, so they never see credentials.
+ */
+export const canSendCredentials = (transport: TransportConfig): boolean => transport.kind !== 'public';
+
+/**
+ * Matches a hostname against a comma-separated list such as
+ * "staging.example.com, *.preview.example.com". "*" alone matches every host.
+ */
+export const matchesHostPattern = (hostname: string, pattern: string): boolean => {
+  const host = hostname.toLowerCase();
+  return pattern.split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean).some(entry => {
+    if (entry === '*') return true;
+    if (entry.startsWith('*.')) {
+      const domain = entry.slice(2);
+      return host === domain || host.endsWith(`.${domain}`);
+    }
+    return host === entry;
+  });
+};
+
+export const findAuthProfile = (profiles: AuthProfile[], url: string): AuthProfile | null =>
+  profiles.find(profile => profile.enabled && matchesHostPattern(new URL(url).hostname, profile.hostPattern)) ?? null;
+
+// btoa only takes Latin-1, so non-ASCII credentials are encoded as UTF-8 first
+const basicAuthToken = (username: string, password: string): string =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(`${username}:${password}`)));
+
+export const getAuthHeaders = (profile: AuthProfile): Record<string, string> => {
+  // Headers whose value was not remembered from an earlier session are left out
+  const headers: Record<string, string> = Object.fromEntries(Object.entries(profile.headers).filter(([, value]) => value));
+  if (profile.cookies.trim()) headers['Cookie'] = profile.cookies.trim();
+  if (profile.userAgent.trim()) headers['User-Agent'] = profile.userAgent.trim();
+  // Likewise basic auth without its password, which would only send a wrong credential
+  if (profile.username && profile.password) headers['Authorization'] = `Basic ${basicAuthToken(profile.username, profile.password)}`;
+  return headers;
+};
+
+/**
+ * Whether secrets that were not remembered are missing: a header without its
+ * value or a username without its password.
+ */
+export const hasMissingSecrets = (profile: AuthProfile): boolean =>
+  Object.values(profile.headers).some(value => !value) || (!!profile.username && !profile.password);
+
+const parseCookies = (cookies: string): [string, string][] =>
+  cookies.split(';').map(pair => pair.trim()).filter(Boolean).map(pair => {
+    const index = pair.indexOf('=');
+    return index === -1 ? ['', pair] : [pair.slice(0, index).trim(), pair.slice(index + 1).trim()];
+  });
+
+/**
+ * The profile as it may be shown or stored: header and cookie values and the
+ * password are replaced, names, hosts and the username are kept.
+ */
+export const redactAuthProfile = (profile: AuthProfile): AuthProfile => ({
+  ...profile,
+  headers: Object.fromEntries(Object.keys(profile.headers).map(name => [name, REDACTED])),
+  cookies: parseCookies(profile.cookies).map(([name]) => name ? `${name}=${REDACTED}` : REDACTED).join('; '),
+  password: profile.password ? REDACTED : '',
+});
+
+/** The parts of a profile that are credentials */
+export type AuthSecrets = Pick<AuthProfile, 'headers' | 'cookies' | 'password'>;
+
+/**
+ * Splits a profile into what may be saved with the other settings (header names
+ * but not their values) and its secrets.
+ */
+export const splitAuthSecrets = (profile: AuthProfile): [AuthProfile, AuthSecrets] => [
+  { ...profile, headers: Object.fromEntries(Object.keys(profile.headers).map(name => [name, ''])), cookies: '', password: '' },
+  { headers: { ...profile.headers }, cookies: profile.cookies, password: profile.password },
+];
+
+export const mergeAuthSecrets = (profile: AuthProfile, secrets: AuthSecrets | undefined): AuthProfile =>
+  secrets ? { ...profile, headers: { ...profile.headers, ...secrets.headers }, cookies: secrets.cookies, password: secrets.password } : profile;
+
+/**
+ * Every value that must not show up in a log line, longest first so a value
+ * containing another is replaced whole.
+ */
+export const getSecrets = (profiles: AuthProfile[]): string[] => {
+  const secrets = new Set<string>();
+  for (const profile of profiles) {
+    Object.values(profile.headers).forEach(value => secrets.add(value.trim()));
+    secrets.add(profile.cookies.trim());
+    parseCookies(profile.cookies).forEach(([, value]) => secrets.add(value));
+    secrets.add(profile.password);
+    if (profile.username) secrets.add(basicAuthToken(profile.username, profile.password));
+  }
+  return Array.from(secrets).filter(secret => secret.length >= MIN_SECRET_LENGTH).sort((a, b) => b.length - a.length);
+};
+
+export const redactSecrets = (text: string, secrets: string[]): string =>
+  secrets.reduce((result, secret) => result.split(secret).join(REDACTED), text);
+
+/**
+ * Parses "Name: value" lines, as typed in the UI or passed to --header.
+ */
+export const parseHeaderLines = (lines: string[]): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of lines) {
+    const index = line.indexOf(':');
+    const name = index === -1 ? '' : line.slice(0, index).trim();
+    if (name) headers[name] = line.slice(index + 1).trim();
+  }
+  return headers;
+};
+
+export const formatHeaderLines = (headers: Record<string, string>): string =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
@@ -0,0 +1,69 @@
+/**
+ * Persistent response cache backed by IndexedDB. Entries are keyed by URL and
+ * keep the body together with its ETag / Last-Modified validators, so re-crawls
+ * can send conditional requests and reuse bodies the server reports as unchanged.
+ */
+import { CachedResponse, ResponseCache } from '../types';
+
+const DB_NAME = 'siteripper-cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDbCache implements ResponseCache {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE, { keyPath: 'url' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE, mode).objectStore(STORE);
+  }
+
+  async get(url: string): Promise<CachedResponse | undefined> {
+    return promisify((await this.store('readonly')).get(url));
+  }
+
+  async put(entry: CachedResponse): Promise<void> {
+    await promisify((await this.store('readwrite')).put(entry));
+  }
+
+  async delete(url: string): Promise<void> {
+    await promisify((await this.store('readwrite')).delete(url));
+  }
+
+  async list(): Promise<CachedResponse[]> {
+    return promisify((await this.store('readonly')).getAll());
+  }
+
+  async clear(): Promise<void> {
+    await promisify((await this.store('readwrite')).clear());
+  }
+}
+
+/**
+ * Validators for a conditional request against a cached entry.
+ */
+export const getConditionalHeaders = (entry: CachedResponse | undefined): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (entry?.etag) headers['If-None-Match'] = entry.etag;
+  if (entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+  return headers;
+};
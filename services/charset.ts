@@ -0,0 +1,127 @@
+/**
+ * Character encoding detection for fetched documents and stylesheets, following
+ * the precedence browsers use: a byte order mark, then the Content-Type charset,
+ * then the document's own declaration (<meta charset>, CSS @charset), then the
+ * encoding of the page that referenced it. Everything is re-encoded as UTF-8 in
+ * the archive, so the declarations are updated to say so.
+ */
+
+export type TextFormat = 'html' | 'css' | 'text';
+
+export interface DecodedText {
+  text: string;
+  encoding: string; // WHATWG encoding name, e.g. "shift_jis"
+  source: 'bom' | 'header' | 'document' | 'default';
+}
+
+// Browsers look for <meta charset> in the first 1024 bytes only
+const PRESCAN_LENGTH = 1024;
+
+/**
+ * Maps a charset label ("latin1", "Shift-JIS", "utf8") to its WHATWG encoding
+ * name, or null if TextDecoder does not know it.
+ */
+export const normalizeEncoding = (label: string | null | undefined): string | null => {
+  if (!label) return null;
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    return null;
+  }
+};
+
+export const getCharsetParameter = (contentType: string | null): string | null =>
+  contentType?.match(/;\s*charset\s*=\s*["']?([^;"'\s]+)/i)?.[1] ?? null;
+
+const sniffBom = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  return null;
+};
+
+const asciiPrefix = (bytes: Uint8Array, length: number): string =>
+  String.fromCharCode(...bytes.subarray(0, length));
+
+/**
+ * Simplified form of the HTML prescan: the first <meta charset> or
+ * <meta http-equiv="Content-Type" content="...; charset=..."> outside comments.
+ */
+const prescanHtml = (bytes: Uint8Array): string | null => {
+  const head = asciiPrefix(bytes, PRESCAN_LENGTH).replace(/<!--[\s\S]*?-->/g, '');
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const charset = tag.match(/\bcharset\s*=\s*["']?\s*([^\s"'\/>;]+)/i);
+    if (charset) return charset[1];
+  }
+  return null;
+};
+
+const readCssCharset = (bytes: Uint8Array): string | null =>
+  asciiPrefix(bytes, PRESCAN_LENGTH).match(/^@charset "([^"]*)";/)?.[1] ?? null;
+
+/**
+ * Decodes fetched bytes. `fallback` is the encoding of the referring document;
+ * without one, text that is not valid UTF-8 is read as windows-1252 like
+ * browsers do for legacy pages.
+ */
+export const decodeText = (
+  bytes: Uint8Array,
+  contentType: string | null,
+  format: TextFormat,
+  fallback?: string
+): DecodedText => {
+  const decode = (encoding: string, source: DecodedText['source']): DecodedText => ({
+    text: new TextDecoder(encoding).decode(bytes),
+    encoding,
+    source,
+  });
+
+  const bom = sniffBom(bytes);
+  if (bom) return decode(bom, 'bom');
+
+  const header = normalizeEncoding(getCharsetParameter(contentType));
+  if (header) return decode(header, 'header');
+
+  const declared = normalizeEncoding(
+    format === 'html' ? prescanHtml(bytes) : format === 'css' ? readCssCharset(bytes) : null
+  );
+  if (declared) {
+    // The declaration was readable as ASCII, so the bytes cannot really be UTF-16
+    return decode(declared.startsWith('utf-16') ? 'utf-8' : declared, 'document');
+  }
+
+  if (fallback && fallback !== 'utf-8') return decode(fallback, 'default');
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8', source: 'default' };
+  } catch {
+    return decode('windows-1252', 'default');
+  }
+};
+
+/**
+ * Makes the document declare UTF-8: one <meta charset="utf-8">, first in <head>
+ * so it falls inside the prescan window.
+ */
+export const declareUtf8 = (doc: Document) => {
+  for (const meta of Array.from(doc.querySelectorAll('meta[http-equiv]'))) {
+    if ((meta.getAttribute('http-equiv') || '').trim().toLowerCase() === 'content-type') meta.remove();
+  }
+  const [meta, ...duplicates] = Array.from(doc.querySelectorAll('meta[charset]'));
+  duplicates.forEach(extra => extra.remove());
+
+  const charset = meta ?? doc.createElement('meta');
+  charset.setAttribute('charset', 'utf-8');
+  let head = doc.querySelector('head');
+  if (!head) {
+    // A meta directly under <html> would sit outside any head once serialized
+    head = doc.createElement('head');
+    doc.documentElement.insertBefore(head, doc.querySelector('body') ?? doc.documentElement.firstChild);
+  }
+  head.insertBefore(charset, head.firstChild);
+};
+
+/**
+ * Rewrites a leading @charset rule to match the UTF-8 copy.
+ */
+export const declareCssUtf8 = (css: string): string =>
+  css.replace(/^@charset "[^"]*";/, '@charset "UTF-8";');
@@ -1,27 +1,185 @@
-import JSZip from 'jszip';
-import FileSaver from 'file-saver';
-import { fetchWithProxy } from './proxy';
-import { Asset, LogEntry, LogLevel, CrawlStats } from '../types';
+import { fetchWithProxy, FetchError, FetchResult, DEFAULT_TRANSPORT, TRANSPORT_LABELS, proxyHealth } from './proxy';
+import { HostRateLimiter, runPool } from './scheduler';
+import { ThroughputMeter, createEmptyStats, estimateRemaining } from './stats';
+import { getPagePath, getMirrorPath, getUrlExtension, relativePath } from './paths';
+import { sha256Hex } from './hash';
+import { DecodedText, TextFormat, declareCssUtf8, declareUtf8, decodeText } from './charset';
+import { getMimeTypeForPath } from './mime';
+import { detectContent } from './sniff';
+import { DEFAULT_EXTRACTION_RULES, getRuleUrls, removeRuleUrls, rewriteRuleValue } from './extraction';
+import { DEFAULT_CRAWL_RULES, RuleSet, mergeCrawlRules } from './rules';
+import { DEFAULT_POST_PROCESSING, PostProcessCounts, describePostProcessing, isTrackerUrl, mergePostProcessing, postProcessPage, registersServiceWorker } from './postprocess';
+import { ALLOW_ALL, DISALLOW_ALL, RobotsPolicy, parseRobots } from './robots';
+import { SitemapEntry, isModifiedSince, parseSitemap, readSitemapBody } from './sitemap';
+import { createArchiveBuilder, ArchiveBuilder } from './formats';
+import { getConditionalHeaders } from './cache';
+import { canSendCredentials, findAuthProfile, getAuthHeaders, getSecrets, hasMissingSecrets, redactAuthProfile, redactSecrets } from './auth';
+import { createManifestResource, parseMimeType, TOOL_NAME, TOOL_VERSION } from './manifest';
+import { findCssReferences, rewriteCssReferences, CssReference } from './css';
+import { checkArchiveLinks } from './linkcheck';
+import { getWebManifestImages } from './webmanifest';
+import { findJsReferences, findWebpackPublicPath, rewriteJsReferences, JsReference } from './js';
+import { Asset, AppState, LogEntry, LogLevel, CrawlStats, CrawlConfig, CrawlManifest, CrawlRules, ExtractionRule, HtmlAdapter, LinkReport, ManifestResource, OutputSink, PostProcessing, PostProcessTransform, ReplaySource, ResponseCache, SkippedResource } from '../types';
 
-interface CrawlerOptions {
+export interface CrawlerOptions extends Partial<Omit<CrawlConfig, 'rules' | 'postProcessing'>> {
   url: string;
+  htmlAdapter: HtmlAdapter; // See services/adapters for browser and Node implementations
+  sink: OutputSink;
+  cache?: ResponseCache; // Only consulted when useCache is on
+  replay?: ReplaySource; // Serve every request from a recording (HAR) instead of the transport
+  extractionRules?: ExtractionRule[]; // Defaults to DEFAULT_EXTRACTION_RULES
+  rules?: Partial<CrawlRules>; // Merged over DEFAULT_CRAWL_RULES
+  postProcessing?: Partial<PostProcessing>; // Merged over DEFAULT_POST_PROCESSING
+  onSkip?: (resource: SkippedResource) => void;
+  onLinkReport?: (report: LinkReport) => void; // Called once the archive's links have been checked
   onLog: (entry: LogEntry) => void;
   onStatsUpdate: (stats: CrawlStats) => void;
+  onStateChange?: (state: AppState) => void; // Reports CRAWLING / PROCESSING / COMPRESSING / PAUSED
 }
 
+interface PageTask {
+  url: string;
+  depth: number;
+  parent?: string; // Set for frame documents: the page that embeds them
+}
+
+interface FetchedBody {
+  body: Blob;
+  contentType: string | null;
+}
+
+interface CrawledPage {
+  url: string;
+  path: string; // Internal path in zip, e.g., "docs/guide/index.html"
+  baseUrl: string;
+  doc: Document;
+}
+
+/**
+ * Thrown while fetching an asset that turns out to break a size rule.
+ */
+class ResourceSkippedError extends Error {
+  constructor(public reason: string) {
+    super(reason);
+    this.name = 'ResourceSkippedError';
+  }
+}
+
+/**
+ * Thrown from start() when the crawl was stopped through cancel().
+ */
+export class CrawlCancelledError extends Error {
+  constructor() {
+    super('Crawl cancelled');
+    this.name = 'CrawlCancelledError';
+  }
+}
+
+export const DEFAULT_CRAWL_CONFIG: CrawlConfig = {
+  maxDepth: 0,
+  maxPages: 50,
+  scope: 'same-host',
+  allowedHosts: [],
+  transport: DEFAULT_TRANSPORT,
+  pathStrategy: 'mirror',
+  concurrency: 5,
+  maxRetries: 2,
+  requestTimeout: 30_000,
+  hostRateLimit: 0,
+  outputFormat: 'zip',
+  useCache: true,
+  rules: DEFAULT_CRAWL_RULES,
+  useSitemap: false,
+  sitemapSince: '',
+  respectRobots: true,
+  userAgent: TOOL_NAME,
+  postProcessing: DEFAULT_POST_PROCESSING,
+  authProfiles: [],
+  strictLinkCheck: false,
+  maxMissingRefs: 0,
+  memoryBudget: 64 * 1024 * 1024,
+  saveToDisk: false,
+};
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.avif', '.svg', '.ico', '.bmp'];
+const FONT_EXTENSIONS = ['.woff', '.woff2', '.ttf', '.otf', '.eot'];
+
+const ENCODING_SOURCES: Record<DecodedText['source'], string> = {
+  bom: 'byte order mark',
+  header: 'Content-Type header',
+  document: 'in-document declaration',
+  default: 'fallback',
+};
+
+// Upper bound on sitemap files read per crawl, including those listed by indexes
+const MAX_SITEMAPS = 50;
+
+// Links ending in one of these are treated as documents rather than downloads
+const PAGE_EXTENSIONS = ['html', 'htm', 'xhtml', 'php', 'asp', 'aspx', 'jsp', 'cfm'];
+
+// Elements whose URL can point at another page: links, and frames crawled as nested pages
+const PAGE_REFERENCES: [selector: string, attribute: string][] = [
+  ['a[href], area[href]', 'href'],
+  ['iframe[src], frame[src]', 'src'],
+];
+
+/**
+ * Splits an absolute URL into the resource and its #fragment, e.g. an SVG sprite and the symbol used.
+ */
+const splitFragment = (url: string): [string, string] => {
+  const index = url.indexOf('#');
+  return index === -1 ? [url, ''] : [url.substring(0, index), url.substring(index)];
+};
+
 export class Crawler {
   private url: URL;
+  private config: CrawlConfig;
+  private extractionRules: ExtractionRule[];
   private onLog: (entry: LogEntry) => void;
   private onStatsUpdate: (stats: CrawlStats) => void;
-  private visitedUrls = new Set<string>();
+  private onStateChange: (state: AppState) => void;
+  private onSkip: (resource: SkippedResource) => void;
+  private onLinkReport: (report: LinkReport) => void;
+  private phase: AppState = AppState.CRAWLING;
+  private abortController = new AbortController();
+  private cancelled = false;
+  private pauseGate: Promise<void> | null = null;
+  private releasePause: (() => void) | null = null;
+  private finalized = false;
+  private downloads = new Map<string, Promise<Asset | undefined>>();
   private assets = new Map<string, Asset>();
-  private stats: CrawlStats = {
-    pagesScanned: 0,
-    assetsFound: 0,
-    assetsDownloaded: 0,
-    totalSize: 0,
-  };
-  private zip: JSZip;
+  private plannedPaths = new Map<string, string>(); // Mirror paths claimed before the download finished
+  private imports = new Map<string, Set<string>>(); // Stylesheet or script URL -> stylesheets / scripts it imports
+  private pagePaths = new Map<string, string>();
+  private attemptedPages = new Set<string>(); // Every page URL ever queued, so one that failed is not fetched again
+  private usedPaths = new Set<string>();
+  private storedPaths = new Set<string>(); // Every file written to the archive
+  private storedText = new Map<string, string>(); // Pages and stylesheets as written, for the link check
+  private pages: CrawledPage[] = [];
+  private resources = new Map<string, ManifestResource>();
+  private startedAt = Date.now();
+  private stats: CrawlStats = createEmptyStats();
+  private throughput = new ThroughputMeter();
+  private discoveredAssets = new Set<string>();
+  private settledAssets = 0; // Downloaded, failed or skipped
+  private failedPages = 0;
+  private html: HtmlAdapter;
+  private archive: ArchiveBuilder;
+  private cache: ResponseCache | null;
+  private cacheHits = 0;
+  private rateLimiter: HostRateLimiter;
+  private ruleSet: RuleSet;
+  private skipped = new Map<string, SkippedResource>();
+  private storedAssetBytes = 0; // Counted against rules.maxTotalSize
+  private robots: RobotsPolicy = ALLOW_ALL;
+  private replay: ReplaySource | null;
+  private replayMisses = new Set<string>();
+  private documentEncoding = 'utf-8'; // The entry page's, assumed for stylesheets and scripts that declare none
+  private rewrittenContent = new Map<string, string>(); // Stylesheets / scripts as stored, for recomputing SRI hashes
+  private serviceWorkerScripts = new Set<string>();
+  private webManifests = new Set<string>(); // Assets referenced as web app manifests, whose icons are fetched too
+  private postProcessCounts: Partial<PostProcessCounts> = {};
+  private secrets: string[]; // Auth profile values scrubbed from every log line
 
   constructor(options: CrawlerOptions) {
     try {
@@ -29,324 +187,1318 @@ export class Crawler {
     } catch (e) {
       throw new Error("Invalid URL provided");
     }
+    this.config = {
+      maxDepth: options.maxDepth ?? DEFAULT_CRAWL_CONFIG.maxDepth,
+      maxPages: options.maxPages ?? DEFAULT_CRAWL_CONFIG.maxPages,
+      scope: options.scope ?? DEFAULT_CRAWL_CONFIG.scope,
+      allowedHosts: (options.allowedHosts ?? DEFAULT_CRAWL_CONFIG.allowedHosts)
+        .map(h => h.trim().toLowerCase())
+        .filter(Boolean),
+      transport: options.transport ?? DEFAULT_CRAWL_CONFIG.transport,
+      pathStrategy: options.pathStrategy ?? DEFAULT_CRAWL_CONFIG.pathStrategy,
+      concurrency: Math.max(1, options.concurrency ?? DEFAULT_CRAWL_CONFIG.concurrency),
+      maxRetries: Math.max(0, options.maxRetries ?? DEFAULT_CRAWL_CONFIG.maxRetries),
+      requestTimeout: Math.max(0, options.requestTimeout ?? DEFAULT_CRAWL_CONFIG.requestTimeout),
+      hostRateLimit: Math.max(0, options.hostRateLimit ?? DEFAULT_CRAWL_CONFIG.hostRateLimit),
+      outputFormat: options.outputFormat ?? DEFAULT_CRAWL_CONFIG.outputFormat,
+      useCache: options.useCache ?? DEFAULT_CRAWL_CONFIG.useCache,
+      rules: mergeCrawlRules(options.rules),
+      useSitemap: options.useSitemap ?? DEFAULT_CRAWL_CONFIG.useSitemap,
+      sitemapSince: options.sitemapSince ?? DEFAULT_CRAWL_CONFIG.sitemapSince,
+      respectRobots: options.respectRobots ?? DEFAULT_CRAWL_CONFIG.respectRobots,
+      userAgent: options.userAgent?.trim() || DEFAULT_CRAWL_CONFIG.userAgent,
+      postProcessing: mergePostProcessing(options.postProcessing),
+      authProfiles: options.authProfiles ?? DEFAULT_CRAWL_CONFIG.authProfiles,
+      strictLinkCheck: options.strictLinkCheck ?? DEFAULT_CRAWL_CONFIG.strictLinkCheck,
+      maxMissingRefs: Math.max(0, options.maxMissingRefs ?? DEFAULT_CRAWL_CONFIG.maxMissingRefs),
+      memoryBudget: options.memoryBudget ?? DEFAULT_CRAWL_CONFIG.memoryBudget,
+      saveToDisk: options.saveToDisk ?? DEFAULT_CRAWL_CONFIG.saveToDisk,
+    };
+    this.extractionRules = options.extractionRules ?? DEFAULT_EXTRACTION_RULES;
     this.onLog = options.onLog;
     this.onStatsUpdate = options.onStatsUpdate;
-    this.zip = new JSZip();
+    this.onStateChange = options.onStateChange ?? (() => {});
+    this.onSkip = options.onSkip ?? (() => {});
+    this.onLinkReport = options.onLinkReport ?? (() => {});
+    this.html = options.htmlAdapter;
+    this.archive = createArchiveBuilder(this.config.outputFormat, options.sink);
+    this.replay = options.replay ?? null;
+    // A recording never changes, so there is nothing to revalidate
+    this.cache = this.config.useCache && !this.replay ? options.cache ?? null : null;
+    this.rateLimiter = new HostRateLimiter(this.config.hostRateLimit);
+    this.ruleSet = new RuleSet(this.config.rules, this.url.hostname, this.config.allowedHosts);
+    this.secrets = getSecrets(this.config.authProfiles);
   }
 
   private log(message: string, level: LogLevel = LogLevel.INFO) {
     this.onLog({
       id: Math.random().toString(36).substr(2, 9),
       timestamp: Date.now(),
-      message,
+      message: redactSecrets(message, this.secrets),
       level,
     });
   }
 
-  private updateStats(update: Partial<CrawlStats>) {
-    this.stats = { ...this.stats, ...update };
+  /**
+   * Applies counter changes and refreshes the derived figures (progress, ETA...).
+   */
+  private updateStats(update: Partial<CrawlStats> = {}) {
+    const stats = { ...this.stats, ...update };
+    // Failed pages leave pagePaths, so add them back to both sides
+    const done = stats.pagesScanned + this.failedPages + this.settledAssets;
+    const total = this.pagePaths.size + this.failedPages + stats.assetsFound;
+    stats.elapsed = Date.now() - this.startedAt;
+    stats.throughput = this.throughput.rate();
+    stats.progress = total > 0 ? Math.min(1, done / total) : 0;
+    stats.eta = estimateRemaining(stats.elapsed, done, total);
+    this.stats = stats;
+    this.onStatsUpdate(stats);
+  }
+
+  /**
+   * During COMPRESSING the progress bar follows the files written to the output.
+   */
+  private reportCompression(done: number, total: number) {
+    const elapsed = Date.now() - this.startedAt;
+    this.stats = { ...this.stats, elapsed, progress: total > 0 ? done / total : 1, eta: null };
     this.onStatsUpdate(this.stats);
   }
 
+  private setPhase(phase: AppState) {
+    this.phase = phase;
+    if (!this.pauseGate) this.onStateChange(phase);
+  }
+
+  /**
+   * Holds the caller while the crawl is paused and throws once it has been cancelled.
+   */
+  private async checkpoint() {
+    if (this.pauseGate) await this.pauseGate;
+    if (this.cancelled) throw new CrawlCancelledError();
+  }
+
+  /**
+   * Stops handing out new downloads. Requests already in flight are allowed to finish.
+   */
+  public pause() {
+    if (this.pauseGate || this.cancelled || this.finalized) return;
+    this.pauseGate = new Promise(resolve => { this.releasePause = resolve; });
+    this.onStateChange(AppState.PAUSED);
+    this.log("Crawl paused.", LogLevel.WARNING);
+  }
+
+  public resume() {
+    if (!this.pauseGate) return;
+    this.releasePause!();
+    this.pauseGate = null;
+    this.releasePause = null;
+    if (!this.cancelled) {
+      this.onStateChange(this.phase);
+      this.log("Crawl resumed.", LogLevel.INFO);
+    }
+  }
+
+  /**
+   * Aborts in-flight requests and makes start() reject with CrawlCancelledError.
+   * Whatever was collected so far can still be saved with downloadPartial().
+   */
+  public cancel() {
+    if (this.cancelled || this.finalized) return;
+    this.cancelled = true;
+    this.abortController.abort();
+    this.resume();
+  }
+
+  public get hasPartialResult(): boolean {
+    return this.cancelled && !this.finalized && (this.pages.length > 0 || this.assets.size > 0);
+  }
+
+  /**
+   * Writes out the pages and assets collected before the crawl was cancelled.
+   */
+  public async downloadPartial() {
+    if (!this.hasPartialResult) return;
+    this.log(`Saving partial archive (${this.pages.length} pages, ${this.assets.size} assets)...`, LogLevel.INFO);
+    await this.finalize('_partial');
+  }
+
   /**
    * Main entry point
    */
   public async start() {
+    this.startedAt = Date.now();
+    // Keeps elapsed time and throughput moving while long downloads report nothing
+    const ticker = setInterval(() => this.updateStats(), 1000);
     this.log(`Starting crawl for ${this.url.href}...`, LogLevel.INFO);
-    
+    if (this.replay) {
+      this.log(`Replaying responses from ${this.replay.name}. The network is not used.`, LogLevel.INFO);
+    } else {
+      this.log(`Using transport: ${TRANSPORT_LABELS[this.config.transport.kind]}`, LogLevel.INFO);
+      this.logAuthProfiles();
+    }
+    if (this.cache) {
+      this.log("Response cache enabled, unchanged resources will be reused.", LogLevel.INFO);
+    }
+    if (this.config.maxDepth > 0) {
+      this.log(
+        `Following links up to depth ${this.config.maxDepth} (scope: ${this.config.scope}, max ${this.config.maxPages} pages).`,
+        LogLevel.INFO
+      );
+    }
+
+    try {
+      // 1. Crawl pages breadth-first, starting from the entry URL
+      const entryUrl = this.normalizePageUrl(this.url.href, this.url.href)!;
+      this.attemptedPages.add(entryUrl);
+      this.pagePaths.set(entryUrl, 'index.html');
+      this.usedPaths.add('index.html');
+
+      await this.loadRobots();
+      if (!this.robots.isAllowed(entryUrl)) {
+        throw new Error(`robots.txt disallows ${entryUrl} for "${this.config.userAgent}". Turn off "Respect robots.txt" to crawl it anyway.`);
+      }
+
+      const queue: PageTask[] = [{ url: entryUrl, depth: 0 }];
+      if (this.config.useSitemap) {
+        await this.seedFromSitemaps(queue);
+      }
+
+      while (queue.length > 0) {
+        await this.checkpoint();
+        const task = queue.shift()!;
+        await this.crawlPage(task, queue);
+      }
+
+      await this.checkpoint();
+      await this.finalize('_source');
+
+    } catch (error: any) {
+      if (error instanceof CrawlCancelledError) {
+        this.log("Crawl cancelled.", LogLevel.WARNING);
+      } else {
+        this.log(`Crawl failed: ${error.message}`, LogLevel.ERROR);
+      }
+      throw error;
+    } finally {
+      clearInterval(ticker);
+      this.updateStats();
+    }
+  }
+
+  /**
+   * Fetches the entry site's robots.txt. Its Sitemap lines are used even when the
+   * rules themselves are overridden.
+   */
+  private async loadRobots() {
+    if (!this.config.respectRobots) {
+      this.log('robots.txt override is on: disallow rules and crawl-delay are ignored.', LogLevel.WARNING);
+      if (!this.config.useSitemap) return;
+    }
+
+    const robotsUrl = new URL('/robots.txt', this.url).href;
+    let policy: RobotsPolicy;
+    try {
+      policy = parseRobots((await this.fetchText(robotsUrl)).text, this.config.userAgent);
+    } catch (e: any) {
+      if (this.cancelled) throw new CrawlCancelledError();
+      // A proxy's own 5xx is a transport failure, not the site refusing robots.txt
+      const status = e instanceof FetchError && e.fromOrigin ? e.status : null;
+      if (status !== null && status >= 500 && this.config.respectRobots) {
+        this.robots = DISALLOW_ALL;
+        this.log(`robots.txt at ${robotsUrl} is unreachable (status ${status}), so the whole site counts as disallowed. Turn off "Respect robots.txt" to crawl it anyway.`, LogLevel.WARNING);
+      } else if (status !== null) {
+        this.log(`No robots.txt at ${robotsUrl} (status ${status}), all paths allowed.`, LogLevel.INFO);
+      } else {
+        this.log(`Could not fetch ${robotsUrl} (${e.message}), all paths allowed.`, LogLevel.WARNING);
+      }
+      return;
+    }
+
+    if (!this.config.respectRobots) {
+      this.robots = { ...ALLOW_ALL, sitemaps: policy.sitemaps };
+      return;
+    }
+
+    this.robots = policy;
+    this.log(
+      policy.agent
+        ? `robots.txt: applying rules for user-agent "${policy.agent}" (as ${this.config.userAgent}).`
+        : `robots.txt has no rules for ${this.config.userAgent}.`,
+      LogLevel.INFO
+    );
+    if (policy.crawlDelay) {
+      this.rateLimiter.setMinInterval(this.url.host, policy.crawlDelay * 1000);
+      this.log(`robots.txt: waiting ${policy.crawlDelay}s between requests to ${this.url.host} (crawl-delay).`, LogLevel.INFO);
+    }
+  }
+
+  /**
+   * Adds the pages listed in the site's sitemaps (from robots.txt, else /sitemap.xml)
+   * to the queue, following sitemap indexes and applying the lastmod filter.
+   */
+  private async seedFromSitemaps(queue: PageTask[]) {
+    const pending = this.robots.sitemaps.length > 0
+      ? [...this.robots.sitemaps]
+      : [new URL('/sitemap.xml', this.url).href];
+    const seen = new Set<string>();
+    const entries: SitemapEntry[] = [];
+
+    while (pending.length > 0 && seen.size < MAX_SITEMAPS) {
+      await this.checkpoint();
+      const sitemapUrl = pending.shift()!;
+      if (seen.has(sitemapUrl)) continue;
+      seen.add(sitemapUrl);
+
+      try {
+        const sitemap = parseSitemap(await readSitemapBody(await this.fetchBlob(sitemapUrl)));
+        if (sitemap.kind === 'sitemapindex') {
+          pending.push(...sitemap.entries.map(entry => entry.loc));
+          this.log(`Sitemap index ${sitemapUrl} lists ${sitemap.entries.length} sitemaps.`, LogLevel.INFO);
+        } else {
+          entries.push(...sitemap.entries);
+          this.log(`Sitemap ${sitemapUrl} lists ${sitemap.entries.length} URLs.`, LogLevel.INFO);
+        }
+      } catch (e: any) {
+        if (this.cancelled) throw new CrawlCancelledError();
+        this.log(`Could not read sitemap ${sitemapUrl}: ${e.message}`, LogLevel.WARNING);
+      }
+    }
+
+    const fresh = entries.filter(entry => isModifiedSince(entry, this.config.sitemapSince));
+    if (this.config.sitemapSince) {
+      this.log(`${fresh.length} of ${entries.length} sitemap URLs modified since ${this.config.sitemapSince}.`, LogLevel.INFO);
+    }
+
+    let added = 0;
+    for (const entry of fresh) {
+      const pageUrl = this.normalizePageUrl(entry.loc, this.url.href);
+      if (!pageUrl || this.attemptedPages.has(pageUrl) || !this.isInScope(new URL(pageUrl))) continue;
+
+      const skipReason = this.getPageSkipReason(pageUrl);
+      if (skipReason) {
+        this.skip(pageUrl, 'page', skipReason);
+        continue;
+      }
+      if (this.pagePaths.size >= this.config.maxPages) {
+        this.log(`Page limit of ${this.config.maxPages} reached, not queueing further sitemap URLs.`, LogLevel.WARNING);
+        break;
+      }
+
+      this.attemptedPages.add(pageUrl);
+      this.pagePaths.set(pageUrl, this.allocatePagePath(new URL(pageUrl)));
+      queue.push({ url: pageUrl, depth: 1 });
+      added++;
+    }
+    this.log(`Queued ${added} pages from the sitemap.`, added > 0 ? LogLevel.SUCCESS : LogLevel.WARNING);
+  }
+
+  /**
+   * Writes the collected pages and lets the output format build the archive.
+   */
+  private async finalize(suffix: string) {
+    this.finalized = true;
+
+    // Rewrite anchors now that we know which pages made it, then write them out
+    this.setPhase(AppState.PROCESSING);
+    await this.writePages();
+
+    for (const [id, count] of Object.entries(this.postProcessCounts) as [PostProcessTransform, number][]) {
+      this.log(`Post-processing: ${describePostProcessing(id, count, this.config.postProcessing)}.`, count > 0 ? LogLevel.SUCCESS : LogLevel.INFO);
+    }
+
+    if (this.cacheHits > 0) {
+      this.log(
+        `Reused ${this.cacheHits} cached responses, saving ${(this.stats.bytesSaved / 1024).toFixed(1)} KB of downloads.`,
+        LogLevel.SUCCESS
+      );
+    }
+
+    if (this.replayMisses.size > 0) {
+      const listed = Array.from(this.replayMisses).slice(0, 10).join(', ');
+      this.log(
+        `${this.replayMisses.size} URLs were not available in ${this.replay!.name}: ${listed}${this.replayMisses.size > 10 ? ', ...' : ''}`,
+        LogLevel.WARNING
+      );
+    }
+
+    if (this.config.transport.kind === 'public' && !this.replay) {
+      for (const proxy of proxyHealth.report()) {
+        const latency = proxy.averageLatency === null ? 'n/a' : `${Math.round(proxy.averageLatency)} ms`;
+        this.log(`Proxy ${proxy.name}: ${Math.round(proxy.successRate * 100)}% healthy over ${proxy.attempts} requests, avg ${latency}`, LogLevel.INFO);
+      }
+    }
+
+    const linkReport = this.checkLinks();
+    // A partial archive is expected to miss things, so strict mode only judges complete crawls
+    if (this.config.strictLinkCheck && !this.cancelled && linkReport.counts.missing > this.config.maxMissingRefs) {
+      throw new Error(
+        `Strict link check failed: ${linkReport.counts.missing} references are missing from the archive (at most ${this.config.maxMissingRefs} allowed).`
+      );
+    }
+
+    const manifest = this.buildManifest(linkReport);
+    await this.archive.addManifest(JSON.stringify(manifest, null, 2));
+    this.log(
+      `Wrote manifest for ${manifest.resources.length} resources (${manifest.summary.failed} failed).`,
+      manifest.summary.failed > 0 ? LogLevel.WARNING : LogLevel.SUCCESS
+    );
+
+    // Build the requested format and let the sink compress / flush everything
+    this.setPhase(AppState.COMPRESSING);
+    this.log("Compressing files...", LogLevel.INFO);
+    const safeName = this.url.hostname.replace(/[^a-z0-9]/gi, '_');
+    const destination = await this.archive.build({
+      archiveName: `${safeName}${suffix}`,
+      entryPath: 'index.html',
+      pageUrls: new Map(this.pages.map(page => [page.path, page.url])),
+      html: this.html,
+      extractionRules: this.extractionRules,
+      onProgress: (done, total) => this.reportCompression(done, total),
+    });
+
+    this.log(`Archive saved: ${destination}`, LogLevel.SUCCESS);
+  }
+
+  private logAuthProfiles() {
+    const profiles = this.config.authProfiles.filter(profile => profile.enabled);
+    if (profiles.length === 0) return;
+    if (!canSendCredentials(this.config.transport)) {
+      this.log(
+        `Auth profiles are not sent through public CORS proxies. Use ${TRANSPORT_LABELS.direct}, a self-hosted proxy or the local proxy server to apply them.`,
+        LogLevel.WARNING
+      );
+      return;
+    }
+    for (const profile of profiles) {
+      this.log(`Auth profile "${profile.name}" applies to ${profile.hostPattern || 'no hosts'}.`, LogLevel.INFO);
+      if (hasMissingSecrets(profile)) {
+        this.log(`Auth profile "${profile.name}" is missing secrets that were not remembered; re-enter them to send its password and headers.`, LogLevel.WARNING);
+      }
+    }
+  }
+
+  /**
+   * Checks that the references in the written pages and stylesheets resolve inside the archive.
+   */
+  private checkLinks(): LinkReport {
+    const report = checkArchiveLinks(this.storedText, this.storedPaths, this.html, this.extractionRules);
+    this.onLinkReport(report);
+
+    const { resolved, missing, remote, data } = report.counts;
+    this.log(
+      `Link check: ${resolved} resolved, ${missing} missing, ${remote} remote and ${data} data URI references in ${report.files} files.`,
+      missing > 0 ? LogLevel.WARNING : LogLevel.SUCCESS
+    );
+    const missingResources = report.problems.filter(entry => entry.status === 'missing' && entry.kind === 'resource');
+    for (const entry of missingResources.slice(0, 10)) {
+      this.log(`Missing from the archive: ${entry.url} (referenced by ${entry.file})`, LogLevel.WARNING);
+    }
+    if (missingResources.length > 10) {
+      this.log(`...and ${missingResources.length - 10} more missing references, see manifest.json.`, LogLevel.WARNING);
+    }
+    if (report.links.missing > 0) {
+      this.log(`${report.links.missing} links point at pages that are not in the archive.`, LogLevel.INFO);
+    }
+    return report;
+  }
+
+  private buildManifest(linkCheck: LinkReport): CrawlManifest {
+    const resources = Array.from(this.resources.values());
+    return {
+      tool: { name: TOOL_NAME, version: TOOL_VERSION },
+      entryUrl: this.url.href,
+      startedAt: new Date(this.startedAt).toISOString(),
+      finishedAt: new Date().toISOString(),
+      complete: !this.cancelled,
+      options: { ...this.config, authProfiles: this.config.authProfiles.map(redactAuthProfile) },
+      summary: {
+        pages: this.pages.length,
+        assets: this.assets.size,
+        failed: resources.filter(r => r.error !== null).length,
+        skipped: this.skipped.size,
+        totalBytes: resources.reduce((sum, r) => sum + (r.size ?? 0), 0),
+      },
+      linkCheck,
+      resources,
+      skipped: Array.from(this.skipped.values()),
+    };
+  }
+
+  private trackResource(url: string, type: ManifestResource['type']): ManifestResource {
+    let resource = this.resources.get(url);
+    if (!resource) {
+      resource = createManifestResource(url, type);
+      this.resources.set(url, resource);
+    }
+    return resource;
+  }
+
+  /**
+   * Records a resource the rules kept out of the archive. Each URL is reported once.
+   */
+  private skip(url: string, type: SkippedResource['type'], reason: string) {
+    if (this.skipped.has(url)) return;
+    const resource: SkippedResource = { url, type, reason };
+    this.skipped.set(url, resource);
+    this.updateStats({ skipped: this.stats.skipped + 1 });
+    this.log(`Skipped ${url}: ${reason}`, LogLevel.INFO);
+    this.onSkip(resource);
+  }
+
+  /**
+   * Enforces the per-asset size cap and the archive budget.
+   */
+  private checkAssetSize(size: number) {
+    const { maxAssetSize, maxTotalSize } = this.ruleSet;
+    if (maxAssetSize > 0 && size > maxAssetSize) {
+      throw new ResourceSkippedError(`Larger than the ${(maxAssetSize / 1048576).toFixed(1)} MB asset limit`);
+    }
+    if (maxTotalSize > 0 && this.storedAssetBytes + size > maxTotalSize) {
+      throw new ResourceSkippedError(`Archive budget of ${(maxTotalSize / 1048576).toFixed(1)} MB reached`);
+    }
+  }
+
+  private recordFailure(url: string, error: any) {
+    const resource = this.resources.get(url);
+    if (!resource) return;
+    resource.error = this.cancelled ? 'Cancelled' : String(error?.message ?? error);
+    if (error instanceof FetchError && error.status !== null) {
+      resource.status = error.status;
+    }
+    if (!this.cancelled) this.updateStats({ failed: this.stats.failed + 1 });
+  }
+
+  /**
+   * Adds a file to the archive and records its size and checksum in the manifest.
+   * Returns the bytes added, which is 0 when a hashed path already holds the same
+   * content: the URL then shares the stored file instead of writing it again.
+   */
+  private async storeFile(url: string, path: string, content: Blob | string): Promise<number> {
+    const duplicate = this.storedPaths.has(path);
+    this.storedPaths.add(path);
+    if (!duplicate) await this.archive.addFile(path, content);
+    if (typeof content === 'string' && /\.(html?|css)$/i.test(path)) this.storedText.set(path, content);
+
+    const size = typeof content === 'string' ? new TextEncoder().encode(content).byteLength : content.size;
+    const resource = this.resources.get(url);
+    if (resource) {
+      resource.path = path;
+      resource.size = size;
+      resource.sha256 = await sha256Hex(content);
+    }
+    if (duplicate) return 0;
+    if (resource) {
+      const typeStats = this.stats.byType[resource.type] ?? { count: 0, bytes: 0 };
+      this.updateStats({
+        byType: { ...this.stats.byType, [resource.type]: { count: typeStats.count + 1, bytes: typeStats.bytes + size } },
+      });
+    }
+    return size;
+  }
+
+  /**
+   * Downloads a single page, its assets, and queues the in-scope links it contains.
+   * A failure on the entry page aborts the crawl; failures on other pages are only logged.
+   */
+  private async crawlPage(task: PageTask, queue: PageTask[]) {
+    const pagePath = this.pagePaths.get(task.url)!;
+    const isEntry = task.depth === 0 && !task.parent;
+
+    this.setPhase(AppState.CRAWLING);
+    this.trackResource(task.url, 'page');
+    let htmlContent: string;
+    try {
+      if (task.parent) {
+        this.log(`Crawling frame of ${task.parent}: ${task.url}`, LogLevel.INFO);
+      } else if (!isEntry) {
+        this.log(`Crawling page (depth ${task.depth}): ${task.url}`, LogLevel.INFO);
+      }
+      const decoded = await this.fetchText(task.url, 'html');
+      htmlContent = decoded.text;
+      if (isEntry) this.documentEncoding = decoded.encoding;
+      if (decoded.encoding !== 'utf-8') {
+        this.log(`${pagePath} is encoded as ${decoded.encoding} (from ${ENCODING_SOURCES[decoded.source]}), saving it as UTF-8.`, LogLevel.INFO);
+      }
+    } catch (e: any) {
+      this.recordFailure(task.url, e);
+      if (this.cancelled) throw new CrawlCancelledError();
+      if (isEntry) throw e;
+      this.pagePaths.delete(task.url);
+      this.failedPages++;
+      this.log(`Failed to download page ${task.url}: ${e.message}`, LogLevel.WARNING);
+      return;
+    }
+
+    this.log(isEntry ? "Main HTML downloaded successfully." : `Downloaded ${pagePath}`, LogLevel.SUCCESS);
+    this.updateStats({ pagesScanned: this.stats.pagesScanned + 1 });
+
+    // Parse HTML
+    const doc = this.html.parse(htmlContent);
+
+    // Set Base URL for relative path resolution
+    const baseTag = doc.querySelector('base');
+    const baseUrl = baseTag ? new URL(baseTag.getAttribute('href') || '', task.url).href : task.url;
+
+    // Scan for Assets
+    this.setPhase(AppState.PROCESSING);
     try {
-      // 1. Fetch Main HTML
-      const htmlContent = await this.fetchText(this.url.href);
-      this.log("Main HTML downloaded successfully.", LogLevel.SUCCESS);
-      this.updateStats({ pagesScanned: 1 });
-
-      // 2. Parse HTML
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(htmlContent, 'text/html');
-      
-      // 3. Set Base URL for relative path resolution
-      const baseTag = doc.querySelector('base');
-      const baseUrl = baseTag ? new URL(baseTag.href, this.url.href).href : this.url.href;
-
-      // 4. Scan for Assets
       await this.processAssets(doc, baseUrl);
+      await this.processInlineStyles(doc, baseUrl, pagePath);
+      await this.processInlineModules(doc, baseUrl, pagePath);
+    } finally {
+      // Runs on cancel too, so a partial archive still contains the page being processed
+      await this.postProcess(doc, baseUrl);
+      this.rewriteHtml(doc, baseUrl, pagePath);
+      this.pages.push({ url: task.url, path: pagePath, baseUrl, doc });
+    }
+
+    this.enqueueFrames(doc, baseUrl, task, queue);
+    if (task.depth < this.config.maxDepth) {
+      this.enqueueLinks(doc, baseUrl, task.depth + 1, queue);
+    }
+  }
+
+  /**
+   * Queues the documents of same-origin frames, and of cross-origin frames the
+   * scope allows, to be crawled next. Frames are part of the page, so they keep its depth.
+   */
+  private enqueueFrames(doc: Document, baseUrl: string, task: PageTask, queue: PageTask[]) {
+    const frames: PageTask[] = [];
+
+    for (const el of Array.from(doc.querySelectorAll('iframe[src], frame[src]'))) {
+      const frameUrl = this.normalizePageUrl(el.getAttribute('src') || '', baseUrl);
+      if (!frameUrl || this.attemptedPages.has(frameUrl)) continue;
+      const u = new URL(frameUrl);
+      if (u.origin !== this.url.origin && !this.isInScope(u)) continue;
 
-      // 5. Rewrite HTML
-      this.rewriteHtml(doc);
+      const skipReason = this.getPageSkipReason(frameUrl);
+      if (skipReason) {
+        this.skip(frameUrl, 'page', skipReason);
+        continue;
+      }
+
+      if (this.pagePaths.size >= this.config.maxPages) {
+        this.log(`Page limit of ${this.config.maxPages} reached, not crawling further frames.`, LogLevel.WARNING);
+        break;
+      }
+
+      this.attemptedPages.add(frameUrl);
+      this.pagePaths.set(frameUrl, this.allocatePagePath(u));
+      frames.push({ url: frameUrl, depth: task.depth, parent: task.url });
+    }
+
+    queue.unshift(...frames);
+  }
+
+  private enqueueLinks(doc: Document, baseUrl: string, depth: number, queue: PageTask[]) {
+    let added = 0;
+
+    for (const el of Array.from(doc.querySelectorAll('a[href], area[href]'))) {
+      const pageUrl = this.normalizePageUrl(el.getAttribute('href') || '', baseUrl);
+      if (!pageUrl || this.attemptedPages.has(pageUrl) || !this.isInScope(new URL(pageUrl))) continue;
 
-      // 6. Add index.html to Zip
-      const serializer = new XMLSerializer();
-      const finalHtml = serializer.serializeToString(doc);
+      const skipReason = this.getPageSkipReason(pageUrl);
+      if (skipReason) {
+        this.skip(pageUrl, 'page', skipReason);
+        continue;
+      }
+
+      if (this.pagePaths.size >= this.config.maxPages) {
+        this.log(`Page limit of ${this.config.maxPages} reached, not following further links.`, LogLevel.WARNING);
+        break;
+      }
+
+      this.attemptedPages.add(pageUrl);
+      this.pagePaths.set(pageUrl, this.allocatePagePath(new URL(pageUrl)));
+      queue.push({ url: pageUrl, depth });
+      added++;
+    }
+
+    if (added > 0) {
+      this.log(`Queued ${added} linked pages at depth ${depth}.`, LogLevel.INFO);
+    }
+  }
+
+  private getPageSkipReason(pageUrl: string): string | null {
+    // robots.txt is only read for the entry host
+    if (new URL(pageUrl).host === this.url.host && !this.robots.isAllowed(pageUrl)) return `Disallowed by robots.txt for ${this.config.userAgent}`;
+    return this.ruleSet.getUrlSkipReason(pageUrl);
+  }
+
+  /**
+   * Resolves an anchor href to an absolute page URL without its fragment.
+   * Returns null for anything that is not an http(s) document link.
+   */
+  private normalizePageUrl(href: string, baseUrl: string): string | null {
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) return null;
+    try {
+      const u = new URL(href, baseUrl);
+      if (u.protocol !== 'http:' && u.protocol !== 'https:') return null;
+
+      const lastSegment = u.pathname.split('/').pop() || '';
+      const ext = lastSegment.includes('.') ? lastSegment.split('.').pop()!.toLowerCase() : '';
+      if (ext && !PAGE_EXTENSIONS.includes(ext)) return null;
+
+      u.hash = '';
+      return u.href;
+    } catch {
+      return null;
+    }
+  }
+
+  private isInScope(u: URL): boolean {
+    switch (this.config.scope) {
+      case 'same-host':
+        return u.host === this.url.host;
+      case 'same-path': {
+        const prefix = this.url.pathname.substring(0, this.url.pathname.lastIndexOf('/') + 1);
+        return u.host === this.url.host && u.pathname.startsWith(prefix);
+      }
+      case 'allowlist':
+        return u.host === this.url.host || this.config.allowedHosts.includes(u.hostname.toLowerCase());
+    }
+  }
+
+  private allocatePagePath(u: URL): string {
+    return this.claimPath(getPagePath(u, this.url.host));
+  }
+
+  /**
+   * Reserves an archive path, adding a numeric suffix if another file already took it.
+   */
+  private claimPath(path: string): string {
+    let candidate = path;
+    for (let i = 1; this.usedPaths.has(candidate); i++) {
+      candidate = path.replace(/(\.[a-z0-9]+)?$/i, `-${i}$1`);
+    }
+    this.usedPaths.add(candidate);
+    return candidate;
+  }
+
+  private async writePages() {
+    const savedPaths = new Map(this.pages.map(page => [page.url, page.path]));
+
+    for (const page of this.pages) {
+      this.rewriteAnchors(page, savedPaths);
+
+      // The archive is written as UTF-8 whatever the page was served as
+      declareUtf8(page.doc);
+      const finalHtml = this.html.serialize(page.doc);
       // Remove any <base> tag as we are making it offline relative
       const finalHtmlClean = finalHtml.replace(/<base[^>]*>/i, '');
-      
-      this.zip.file("index.html", finalHtmlClean);
-      this.log("Generated index.html", LogLevel.SUCCESS);
-
-      // 7. Generate Zip
-      this.log("Compressing files...", LogLevel.INFO);
-      const content = await this.zip.generateAsync({ type: "blob" });
-      
-      // 8. Trigger Download
-      const safeName = this.url.hostname.replace(/[^a-z0-9]/gi, '_');
-      
-      // Fix for file-saver import issue on some CDNs
-      // @ts-ignore
-      const saveToDisk = FileSaver.saveAs || FileSaver;
-      saveToDisk(content, `${safeName}_source.zip`);
-      
-      this.log("ZIP file downloaded!", LogLevel.SUCCESS);
 
-    } catch (error: any) {
-      this.log(`Crawl failed: ${error.message}`, LogLevel.ERROR);
-      throw error;
+      await this.storeFile(page.url, page.path, finalHtmlClean);
+      this.log(`Generated ${page.path}`, LogLevel.SUCCESS);
+    }
+  }
+
+  /**
+   * Points links and frames at the local copy of every page that was saved, keeping the #fragment.
+   * Everything else they point at (pages that were not crawled or failed, downloads) gets its
+   * absolute URL, so it still opens online instead of resolving to nothing inside the archive.
+   */
+  private rewriteAnchors(page: CrawledPage, savedPaths: Map<string, string>) {
+    for (const [selector, attribute] of PAGE_REFERENCES) {
+      page.doc.querySelectorAll(selector).forEach((el) => {
+        const href = el.getAttribute(attribute) || '';
+        if (!href || href.startsWith('#')) return;
+        const target = this.normalizePageUrl(href, page.baseUrl);
+        const targetPath = target ? savedPaths.get(target) : undefined;
+        if (!targetPath) {
+          const absoluteUrl = this.resolveUrl(href, page.baseUrl);
+          if (/^https?:/i.test(absoluteUrl)) el.setAttribute(attribute, absoluteUrl);
+          return;
+        }
+
+        const hashIndex = href.indexOf('#');
+        const fragment = hashIndex >= 0 ? href.substring(hashIndex) : '';
+        el.setAttribute(attribute, relativePath(page.path, targetPath) + fragment);
+      });
     }
   }
 
-  private async fetchText(url: string): Promise<string> {
-    const res = await fetchWithProxy(url);
-    const text = await res.text();
-    this.updateStats({ totalSize: this.stats.totalSize + text.length });
-    return text;
+  /**
+   * Fetches and decodes a text resource. Stylesheets and scripts without a
+   * declared charset inherit the entry page's encoding.
+   */
+  private async fetchText(url: string, format: TextFormat = 'text', checkSize?: (size: number) => void): Promise<DecodedText> {
+    const { body, contentType } = await this.fetchBody(url, checkSize);
+    const bytes = new Uint8Array(await body.arrayBuffer());
+    return decodeText(bytes, contentType, format, format === 'html' ? undefined : this.documentEncoding);
+  }
+
+  private async fetchBlob(url: string, checkSize?: (size: number) => void): Promise<Blob> {
+    return (await this.fetchBody(url, checkSize)).body;
   }
 
-  private async fetchBlob(url: string): Promise<Blob> {
-    const res = await fetchWithProxy(url, true);
+  /**
+   * Fetches a URL through the configured transport. With a cache configured the
+   * request is made conditional, and a 304 reuses the cached body. `checkSize`
+   * may throw to reject the body, first on Content-Length and again on the real size.
+   */
+  private async fetchBody(url: string, checkSize: (size: number) => void = () => {}): Promise<FetchedBody> {
+    const cached = this.cache ? await this.cache.get(url).catch(() => undefined) : undefined;
+    const profile = canSendCredentials(this.config.transport) ? findAuthProfile(this.config.authProfiles, url) : null;
+    // Text is decoded from the original bytes too, so every request needs a byte-exact transport
+    const { response: res, servedBy, url: responseUrl, redirects } = this.replay
+      ? await this.fetchFromReplay(url)
+      : await fetchWithProxy(url, true, {
+          transport: this.config.transport,
+          signal: this.abortController.signal,
+          headers: getConditionalHeaders(cached),
+          credentials: profile ? getAuthHeaders(profile) : undefined,
+          timeout: this.config.requestTimeout,
+          retries: this.config.maxRetries,
+          rateLimiter: this.rateLimiter,
+          onRetry: ({ attempt, delay, status }) => {
+            const reason = status ? `status ${status}` : 'no response';
+            this.log(`Retrying ${url} in ${(delay / 1000).toFixed(1)}s (${reason}, retry ${attempt}/${this.config.maxRetries})`, LogLevel.WARNING);
+          },
+          onLog: (message) => this.log(message, LogLevel.INFO),
+        }).catch(async (e) => {
+          if (e instanceof FetchError) await this.captureFailure(url, e);
+          throw e;
+        });
+    redirects.forEach(hop => this.captureResponse(hop.url, hop.status, hop.statusText, hop.headers, new Blob([])));
+
+    if (res.status === 304) {
+      if (!cached) throw new FetchError(`Unexpected 304 response for ${url}`, 304);
+      checkSize(cached.size);
+      this.cacheHits++;
+      this.recordResponse(url, 304, `${servedBy} (cache)`, cached.headers['content-type'] ?? null);
+      this.updateStats({
+        totalSize: this.stats.totalSize + cached.size,
+        bytesSaved: this.stats.bytesSaved + cached.size,
+        bytesByHost: this.addHostBytes(url, cached.size),
+      });
+      this.captureResponse(url, cached.status, cached.statusText, cached.headers, cached.body);
+      return { body: cached.body, contentType: cached.headers['content-type'] ?? null };
+    }
+
+    const headers: Record<string, string> = {};
+    res.headers.forEach((value, name) => { headers[name] = value; });
+    this.recordResponse(url, res.status, servedBy, res.headers.get('content-type'));
+
+    const declaredSize = parseInt(res.headers.get('content-length') ?? '', 10);
+    if (!Number.isNaN(declaredSize)) {
+      try {
+        checkSize(declaredSize);
+      } catch (e) {
+        await res.body?.cancel().catch(() => {});
+        throw e;
+      }
+    }
+
     const blob = await res.blob();
-    this.updateStats({ totalSize: this.stats.totalSize + blob.size });
-    return blob;
+    checkSize(blob.size);
+    this.throughput.record(blob.size);
+    this.updateStats({ totalSize: this.stats.totalSize + blob.size, bytesByHost: this.addHostBytes(url, blob.size) });
+    this.captureResponse(responseUrl, res.status, res.statusText, headers, blob);
+
+    if (this.cache) {
+      const etag = res.headers.get('etag');
+      const lastModified = res.headers.get('last-modified');
+      // Cache failures (quota, private mode) must never fail the crawl
+      const update = etag || lastModified
+        ? this.cache.put({
+            url, body: blob, etag, lastModified, headers,
+            status: res.status, statusText: res.statusText, size: blob.size, storedAt: Date.now(),
+          })
+        : cached ? this.cache.delete(url) : Promise.resolve();
+      await update.catch(() => {});
+    }
+
+    return { body: blob, contentType: res.headers.get('content-type') };
+  }
+
+  /**
+   * Looks a URL up in the recording. Misses are collected for the end-of-crawl report.
+   */
+  private async fetchFromReplay(url: string): Promise<FetchResult> {
+    try {
+      return { response: await this.replay!.fetch(url), servedBy: this.replay!.name, url, redirects: [] };
+    } catch (e) {
+      if (!(e instanceof FetchError) || e.status === null) this.replayMisses.add(url);
+      throw e;
+    }
+  }
+
+  private addHostBytes(url: string, bytes: number): Record<string, number> {
+    const host = new URL(url).host;
+    return { ...this.stats.bytesByHost, [host]: (this.stats.bytesByHost[host] ?? 0) + bytes };
+  }
+
+  private recordResponse(url: string, status: number, servedBy: string, contentType: string | null) {
+    const resource = this.resources.get(url);
+    if (!resource) return;
+    resource.status = status;
+    resource.servedBy = servedBy;
+    resource.mimeType = parseMimeType(contentType);
+  }
+
+  /**
+   * Archives the redirects and the error response behind a failed request, so
+   * raw-traffic formats still record the status every URL answered with.
+   */
+  private async captureFailure(url: string, error: FetchError) {
+    const { response, redirects } = error;
+    if (!this.archive.needsResponses) {
+      await response?.body?.cancel().catch(() => {});
+      return;
+    }
+    redirects.forEach(hop => this.captureResponse(hop.url, hop.status, hop.statusText, hop.headers, new Blob([])));
+    if (!response) return;
+    const body = await response.blob().catch(() => new Blob([]));
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => { headers[name] = value; });
+    this.captureResponse(error.url ?? url, response.status, response.statusText, headers, body);
+  }
+
+  /**
+   * Hands the unmodified response to formats that archive raw traffic (WARC).
+   */
+  private captureResponse(url: string, status: number, statusText: string, headers: Record<string, string>, body: Blob) {
+    if (!this.archive.needsResponses) return;
+    this.archive.addResponse({ url, status, statusText, headers, body, fetchedAt: Date.now() });
   }
 
   /**
    * Scans the document for linked resources and downloads them.
    */
   private async processAssets(doc: Document, baseUrl: string) {
-    const elements = doc.querySelectorAll('img, link[rel="stylesheet"], script, video source, audio source');
-    const assetQueue: { element: Element, url: string, type: Asset['type'] }[] = [];
+    const assetQueue: { url: string, type: Asset['type'] }[] = [];
+    const queued = new Set<string>();
 
     // Identify all needed assets first
-    elements.forEach((el) => {
-      let src = '';
-      let type: Asset['type'] = 'other';
-
-      if (el.tagName === 'LINK' && el.getAttribute('rel') === 'stylesheet') {
-        src = el.getAttribute('href') || '';
-        type = 'css';
-      } else if (el.tagName === 'SCRIPT') {
-        src = el.getAttribute('src') || '';
-        type = 'js';
-      } else if (el.tagName === 'IMG') {
-        src = el.getAttribute('src') || '';
-        type = 'image';
-      } else if (el.tagName === 'SOURCE') {
-        src = el.getAttribute('src') || '';
-        type = 'video';
-      }
-
-      if (src && !src.startsWith('data:') && !src.startsWith('#')) {
-        try {
-          const absoluteUrl = new URL(src, baseUrl).href;
-          assetQueue.push({ element: el, url: absoluteUrl, type });
-        } catch (e) {
-          // invalid url, ignore
+    for (const rule of this.extractionRules) {
+      doc.querySelectorAll(rule.selector).forEach((el) => {
+        for (const src of getRuleUrls(rule, el.getAttribute(rule.attribute) || '')) {
+          if (src.startsWith('data:') || src.startsWith('#')) continue;
+          try {
+            // sprite.svg#logo and sprite.svg#menu are one file
+            const [absoluteUrl] = splitFragment(new URL(src, baseUrl).href);
+            if (!queued.has(absoluteUrl)) {
+              queued.add(absoluteUrl);
+              assetQueue.push({ url: absoluteUrl, type: rule.type });
+            }
+          } catch (e) {
+            // invalid url, ignore
+          }
         }
-      }
-    });
+      });
+    }
+
+    for (const link of Array.from(doc.querySelectorAll('link[rel~="manifest"][href]'))) {
+      const manifestUrl = this.resolveUrl(link.getAttribute('href')!, baseUrl);
+      if (queued.has(manifestUrl)) this.webManifests.add(manifestUrl);
+    }
 
-    this.updateStats({ assetsFound: assetQueue.length });
-    this.log(`Found ${assetQueue.length} linked assets. Downloading...`, LogLevel.INFO);
+    const newAssets = this.discover(assetQueue.map(item => item.url));
+    this.log(`Found ${newAssets} new linked assets. Downloading...`, LogLevel.INFO);
 
     // Process queue with concurrency limit to avoid overwhelming the browser/proxy
-    const CONCURRENCY = 5;
-    for (let i = 0; i < assetQueue.length; i += CONCURRENCY) {
-        const chunk = assetQueue.slice(i, i + CONCURRENCY);
-        await Promise.all(chunk.map(item => this.downloadAsset(item.url, item.type)));
-        
-        // Minor delay to be nice to the network
-        // await new Promise(r => setTimeout(r, 100));
-    }
+    await runPool(assetQueue, this.config.concurrency, async (item) => {
+      await this.checkpoint();
+      await this.downloadAsset(item.url, item.type);
+    });
   }
 
-  private async downloadAsset(url: string, type: Asset['type']) {
-    if (this.visitedUrls.has(url)) return;
-    this.visitedUrls.add(url);
+  /**
+   * Downloads an asset once. Concurrent callers for the same URL share the same
+   * download and all receive the stored Asset (or undefined if it failed).
+   */
+  private downloadAsset(url: string, type: Asset['type']): Promise<Asset | undefined> {
+    let download = this.downloads.get(url);
+    if (!download) {
+      const skipReason = this.config.postProcessing.transforms.trackers && isTrackerUrl(url)
+        ? 'Tracker (removed by post-processing)'
+        : this.ruleSet.getAssetSkipReason(url, type);
+      if (skipReason) {
+        this.skip(url, type, skipReason);
+        download = Promise.resolve(undefined);
+      } else {
+        download = this.fetchAndStoreAsset(url, type);
+      }
+      this.downloads.set(url, download);
+      download.then(() => {
+        this.settledAssets++;
+        this.updateStats();
+      });
+    }
+    return download;
+  }
 
+  private async fetchAndStoreAsset(url: string, type: Asset['type']): Promise<Asset | undefined> {
+    this.trackResource(url, type);
     try {
+      await this.checkpoint();
+      // Once the budget is spent there is no point in fetching anything else
+      if (this.ruleSet.maxTotalSize > 0 && this.storedAssetBytes >= this.ruleSet.maxTotalSize) {
+        throw new ResourceSkippedError(`Archive budget of ${(this.ruleSet.maxTotalSize / 1048576).toFixed(1)} MB reached`);
+      }
       this.log(`Fetching ${url.substring(0, 50)}...`, LogLevel.INFO);
-      
-      const filename = this.getFilenameFromUrl(url, type);
-      const folder = this.getFolderForType(type);
-      const zipPath = `${folder}/${filename}`;
+      const checkSize = (size: number) => this.checkAssetSize(size);
 
+      let zipPath: string;
       let content: Blob | string;
+      let mimeType: string;
+
+      const isWebManifest = this.webManifests.has(url);
+      if (type === 'css' || type === 'js' || isWebManifest) {
+        const folder = this.getFolderForType(type);
+        const ext = getUrlExtension(new URL(url)) || (isWebManifest ? '.webmanifest' : type === 'css' ? '.css' : '.js');
+
+        // Mirrored paths are known up front; hashed paths only once we have the content.
+        // Either way the folder is fixed, which is all CSS needs to compute relative references.
+        zipPath = this.config.pathStrategy === 'mirror'
+          ? this.claimPath(getMirrorPath(new URL(url), folder, ext))
+          : `${folder}/pending${ext}`;
+        if (this.config.pathStrategy === 'mirror') {
+          this.plannedPaths.set(url, zipPath);
+        }
 
-      if (type === 'css') {
-        // Special handling for CSS to find internal assets (fonts/images)
-        const cssText = await this.fetchText(url);
-        content = await this.processCssAssets(cssText, url);
-      } else if (type === 'js') {
-        content = await this.fetchText(url);
+        const { text } = await this.fetchText(url, type === 'css' ? 'css' : 'text', checkSize);
+        content = isWebManifest ? await this.processWebManifest(text, url, zipPath)
+          : type === 'css' ? await this.processCssAssets(declareCssUtf8(text), url, zipPath)
+          : await this.processJsAssets(text, url, zipPath);
+        mimeType = isWebManifest ? 'application/manifest+json' : type === 'css' ? 'text/css' : 'text/javascript';
+        const { transforms, integrity } = this.config.postProcessing;
+        if (transforms.integrity && integrity === 'recompute') this.rewrittenContent.set(url, content);
+        if (this.config.pathStrategy === 'hash') {
+          // Identical content shares one file, so no collision handling is needed here
+          zipPath = `${folder}/${(await sha256Hex(content)).substring(0, 16)}${ext}`;
+          this.usedPaths.add(zipPath);
+        }
       } else {
-        content = await this.fetchBlob(url);
+        // Nothing refers back to binary assets while they download, so their
+        // path can wait until the body tells us what they really are
+        content = await this.fetchBlob(url, checkSize);
+        const detected = await detectContent(content, this.resources.get(url)?.mimeType ?? null, url, type);
+        const skipReason = detected.type !== type ? this.ruleSet.getAssetSkipReason(url, detected.type) : null;
+        if (skipReason) throw new ResourceSkippedError(skipReason);
+        if (detected.type !== type) {
+          this.log(`${url.substring(0, 50)} is ${detected.mimeType}, stored as ${detected.type}`, LogLevel.INFO);
+        }
+        type = detected.type;
+        mimeType = detected.mimeType;
+
+        const folder = this.getFolderForType(type);
+        const urlExt = getUrlExtension(new URL(url));
+        const ext = urlExt && getMimeTypeForPath(urlExt) === mimeType ? urlExt : detected.extension || urlExt;
+        if (this.config.pathStrategy === 'mirror') {
+          zipPath = this.claimPath(getMirrorPath(new URL(url), folder, ext));
+        } else {
+          zipPath = `${folder}/${(await sha256Hex(content)).substring(0, 16)}${ext}`;
+          this.usedPaths.add(zipPath);
+        }
       }
 
-      this.assets.set(url, {
+      const asset: Asset = {
         originalUrl: url,
-        filename,
+        filename: zipPath.split('/').pop()!,
         type,
+        mimeType,
         path: zipPath,
-      });
+      };
+      this.assets.set(url, asset);
 
-      this.zip.file(zipPath, content);
+      const resource = this.resources.get(url);
+      if (resource) {
+        resource.type = type;
+        resource.mimeType = mimeType;
+      }
+
+      this.storedAssetBytes += await this.storeFile(url, zipPath, content);
       this.updateStats({ assetsDownloaded: this.stats.assetsDownloaded + 1 });
+      return asset;
 
     } catch (e: any) {
+      this.plannedPaths.delete(url);
+      if (e instanceof ResourceSkippedError) {
+        this.resources.delete(url);
+        this.skip(url, type, e.reason);
+        return undefined;
+      }
+      this.recordFailure(url, e);
+      if (this.cancelled) return undefined;
       this.log(`Failed to download ${url}: ${e.message}`, LogLevel.WARNING);
+      return undefined;
     }
   }
 
   /**
-   * Parses CSS content to find url(...) references (fonts, background images)
-   * Downloads them and rewrites the CSS to point to local files.
+   * Treats a stylesheet as a node in a dependency graph: finds url(), @import and
+   * image-set() references, downloads them (recursing into imported stylesheets),
+   * and rewrites each reference relative to `cssPath`, where the CSS will be stored.
    */
-  private async processCssAssets(css: string, cssUrl: string): Promise<string> {
-    const urlRegex = /url\((['"]?)(.*?)\1\)/g;
-    let match;
-    const assetsToDownload: { url: string, placeholder: string }[] = [];
-    let processedCss = css;
-
-    while ((match = urlRegex.exec(css)) !== null) {
-      const originalRef = match[2];
-      
-      if (originalRef.startsWith('data:') || originalRef.startsWith('#')) continue;
+  private async processCssAssets(css: string, cssUrl: string, cssPath: string): Promise<string> {
+    const resolved = new Map<CssReference, string>();
+    const dependencies = new Map<string, Asset['type']>();
 
+    for (const ref of findCssReferences(css)) {
+      const value = ref.url.trim();
+      if (!value || value.startsWith('data:') || value.startsWith('#')) continue;
       try {
-        const absoluteUrl = new URL(originalRef, cssUrl).href;
-        
-        // Generate a filename for this sub-asset
-        // We put css assets in a general 'assets' folder or 'images' depending on extension
-        // For simplicity, we put them in 'assets'
-        const filename = this.getFilenameFromUrl(absoluteUrl, 'other');
-        const relativePath = `../assets/${filename}`; // Assuming css is in /css/ folder
-
-        assetsToDownload.push({ url: absoluteUrl, placeholder: relativePath });
-        
-        // We download it, but we need to do it without blocking the main flow too much
-        // Note: we can't easily await inside the replace loop in a clean way without splitting logic
-        // So we gather first.
-      } catch (e) {
-          // ignore
+        const absoluteUrl = new URL(value, cssUrl).href;
+        resolved.set(ref, absoluteUrl);
+        const type = ref.kind === 'import' ? 'css'
+          : ref.inFontFace ? 'font'
+          : this.guessTypeFromUrl(absoluteUrl, 'other');
+        if (!dependencies.has(absoluteUrl)) dependencies.set(absoluteUrl, type);
+      } catch {
+        // invalid url, ignore
       }
     }
 
-    // Download CSS sub-assets
-    for (const asset of assetsToDownload) {
-        if (!this.visitedUrls.has(asset.url)) {
-            this.visitedUrls.add(asset.url);
-            try {
-                const blob = await this.fetchBlob(asset.url);
-                this.zip.file(`assets/${this.getFilenameFromUrl(asset.url, 'other')}`, blob);
-                this.log(`Downloaded CSS asset: ${asset.url.substring(0, 30)}...`, LogLevel.INFO);
-            } catch (e) {
-                this.log(`Failed CSS asset: ${asset.url}`, LogLevel.WARNING);
-            }
-        }
-        
-        // Replace in CSS string
-        // Note: this simple replace might be dangerous if the URL appears in text content, but standard for simple crawlers
-        // A better approach is string splicing based on regex indices.
-        // For this demo, we use a robust replaceAll approach if possible, but exact matching is key.
-        
-        // We need to escape special regex chars in the original URL if we use it in a RegExp
-        // Or simply split/join
-        processedCss = processedCss.split(asset.url).join(asset.placeholder);
-        
-        // Also handle the case where it was relative in the original CSS
-        // This is tricky. We'll rely on the fact that we're replacing the *content* of the url() 
-        // We iterate the matches again or do a smart replace. 
-        // Actually, the simplest way for a demo is:
-        // We know the resolved absolute URL. We don't easily know exactly what text was inside url().
-        // So we will just leave it as is? No, that breaks offline.
-        
-        // REVISION: We must replace the specific match string.
-        // Since we can't easily map back, we will skip complex CSS rewriting for this version 
-        // and just try to replace the filename if it matches.
-        // A robust CSS parser is too heavy. 
-        // We will try to replace the exact string found in `match[2]`
-    }
-    
-    // Simple pass to fix paths: 
-    // We re-run regex, find the match, resolve it to absolute, see if we have a local path for it.
-    processedCss = processedCss.replace(urlRegex, (match, quote, url) => {
-        if (url.startsWith('data:') || url.startsWith('#')) return match;
-        try {
-             const abs = new URL(url, cssUrl).href;
-             const filename = this.getFilenameFromUrl(abs, 'other');
-             // If we are in /css/style.css, and assets are in /assets/
-             return `url(${quote}../assets/${filename}${quote})`;
-        } catch {
-            return match;
-        }
+    await this.downloadDependencies(cssUrl, dependencies);
+
+    // Rewrite every reference against the local copy. References that failed to download
+    // are made absolute so they at least keep working while online.
+    return rewriteCssReferences(css, Array.from(resolved.keys()), (ref) => {
+      const absoluteUrl = resolved.get(ref)!;
+      // An empty data URI keeps the declaration valid without contacting the third party
+      if (this.ruleSet.shouldDrop(absoluteUrl)) return 'data:,';
+      const localPath = this.assets.get(absoluteUrl)?.path ?? this.plannedPaths.get(absoluteUrl);
+      return localPath ? relativePath(cssPath, localPath) : absoluteUrl;
     });
+  }
 
-    return processedCss;
+  /**
+   * Counts asset URLs not seen before and returns how many there were. A page and a
+   * stylesheet can discover the same URL before either starts downloading it.
+   */
+  private discover(urls: string[]): number {
+    const before = this.discoveredAssets.size;
+    urls.forEach(url => this.discoveredAssets.add(url));
+    const added = this.discoveredAssets.size - before;
+    if (added > 0) this.updateStats({ assetsFound: this.discoveredAssets.size });
+    return added;
   }
 
-  private rewriteHtml(doc: Document) {
-    // Rewrite <link rel="stylesheet">
-    doc.querySelectorAll('link[rel="stylesheet"]').forEach((el) => {
-      const href = el.getAttribute('href');
-      if (href) {
-        const abs = this.resolveUrl(href);
-        const asset = this.assets.get(abs);
-        if (asset) {
-          el.setAttribute('href', `css/${asset.filename}`);
+  /**
+   * Downloads the sub-resources of a stylesheet or script. Imports that would close
+   * a cycle are not awaited, otherwise the two files would wait on each other forever.
+   */
+  private async downloadDependencies(fromUrl: string, dependencies: Map<string, Asset['type']>) {
+    this.discover(Array.from(dependencies.keys()));
+
+    await Promise.all(Array.from(dependencies).map(([url, type]) => {
+      if (type === 'css' || type === 'js') {
+        if (this.importReaches(url, fromUrl)) {
+          this.log(`Circular import between ${fromUrl} and ${url}`, LogLevel.WARNING);
+          this.downloadAsset(url, type);
+          return undefined;
         }
+        if (!this.imports.has(fromUrl)) this.imports.set(fromUrl, new Set());
+        this.imports.get(fromUrl)!.add(url);
       }
-    });
+      return this.downloadAsset(url, type);
+    }));
+  }
 
-    // Rewrite <script src>
-    doc.querySelectorAll('script[src]').forEach((el) => {
-      const src = el.getAttribute('src');
-      if (src) {
-        const abs = this.resolveUrl(src);
-        const asset = this.assets.get(abs);
-        if (asset) {
-          el.setAttribute('src', `js/${asset.filename}`);
-        }
+  /**
+   * Downloads the icons, screenshots and shortcut icons of a web app manifest
+   * and points them at the local copies, relative to `manifestPath`.
+   */
+  private async processWebManifest(json: string, manifestUrl: string, manifestPath: string): Promise<string> {
+    let manifest: any;
+    try {
+      manifest = JSON.parse(json);
+    } catch {
+      this.log(`${manifestUrl} is not valid JSON, saved without its icons.`, LogLevel.WARNING);
+      return json;
+    }
+
+    const images = getWebManifestImages(manifest).filter(image => !image.src.startsWith('data:'));
+    const resolved = new Map(images.map(image => [image, this.resolveUrl(image.src, manifestUrl)]));
+    await this.downloadDependencies(manifestUrl, new Map(Array.from(resolved.values()).map(url => [url, 'image'])));
+
+    for (const [image, url] of resolved) {
+      const localPath = this.assets.get(url)?.path;
+      if (localPath) image.src = relativePath(manifestPath, localPath);
+    }
+    return JSON.stringify(manifest, null, 2);
+  }
+
+  /**
+   * Finds module imports, worker / asset URLs and bundler chunks in a script,
+   * downloads them (recursing into imported scripts) and rewrites the literal
+   * specifiers relative to `jsPath`. Chunk URLs that the bundler assembles at
+   * runtime are downloaded as well but cannot be rewritten.
+   */
+  private async processJsAssets(js: string, jsUrl: string, jsPath: string): Promise<string> {
+    const { references, unresolved } = findJsReferences(js);
+    const publicPath = findWebpackPublicPath(js);
+    if (registersServiceWorker(js)) this.serviceWorkerScripts.add(jsUrl);
+    const resolved = new Map<JsReference, string>();
+    const dependencies = new Map<string, Asset['type']>();
+
+    for (const ref of references) {
+      let absoluteUrl: string;
+      try {
+        absoluteUrl = new URL(ref.url, this.getJsReferenceBase(ref, jsUrl, publicPath)).href;
+      } catch {
+        unresolved.push({ reference: ref.url, reason: 'Invalid URL' });
+        continue;
       }
+      resolved.set(ref, absoluteUrl);
+      const type = ref.kind === 'import' || ref.kind === 'dynamic-import' ? 'js' : this.guessTypeFromUrl(absoluteUrl, 'other');
+      if (!dependencies.has(absoluteUrl)) dependencies.set(absoluteUrl, type);
+    }
+
+    await this.downloadDependencies(jsUrl, dependencies);
+
+    const computed = references.filter(ref => !ref.rewritable).length;
+    if (computed > 0) {
+      this.log(`${jsUrl}: downloaded ${computed} bundler chunks whose URLs are built at runtime and cannot be rewritten.`, LogLevel.INFO);
+    }
+    if (unresolved.length > 0) {
+      const listed = unresolved.slice(0, 5).map(u => `${u.reference} (${u.reason})`).join(', ');
+      this.log(
+        `${jsUrl}: ${unresolved.length} references could not be resolved: ${listed}${unresolved.length > 5 ? ', ...' : ''}`,
+        LogLevel.WARNING
+      );
+    }
+
+    // Same policy as CSS: local copy if we have one, otherwise the absolute URL
+    return rewriteJsReferences(js, Array.from(resolved.keys()), (ref) => {
+      const absoluteUrl = resolved.get(ref)!;
+      const localPath = this.assets.get(absoluteUrl)?.path ?? this.plannedPaths.get(absoluteUrl);
+      if (!localPath) return absoluteUrl;
+      const relative = relativePath(jsPath, localPath);
+      // Module specifiers must start with "./" or "../" to count as relative
+      return relative.startsWith('../') ? relative : `./${relative}`;
     });
+  }
 
-    // Rewrite <img src>
-    doc.querySelectorAll('img[src]').forEach((el) => {
-      const src = el.getAttribute('src');
-      if (src) {
-        const abs = this.resolveUrl(src);
-        const asset = this.assets.get(abs);
-        if (asset) {
-          el.setAttribute('src', `images/${asset.filename}`);
-        }
-      }
+  /**
+   * Module specifiers resolve against the script itself. webpack chunks resolve
+   * against the public path, and Vite preload lists against the app base, which
+   * we infer from where the listed folder appears in the script's own URL.
+   */
+  private getJsReferenceBase(ref: JsReference, jsUrl: string, publicPath: string | null): string {
+    if (ref.kind === 'chunk') {
+      return publicPath !== null ? new URL(publicPath, jsUrl).href : jsUrl;
+    }
+    if (ref.kind === 'preload') {
+      const script = new URL(jsUrl);
+      const folder = `/${ref.url.split('/')[0]}/`;
+      const at = script.pathname.indexOf(folder);
+      return new URL(at >= 0 ? script.pathname.substring(0, at + 1) : '/', script).href;
+    }
+    return jsUrl;
+  }
+
+  /**
+   * True if stylesheet or script `from` (transitively) imports `target`, or is `target` itself.
+   */
+  private importReaches(from: string, target: string, seen = new Set<string>()): boolean {
+    if (from === target) return true;
+    if (seen.has(from)) return false;
+    seen.add(from);
+    for (const next of this.imports.get(from) ?? []) {
+      if (this.importReaches(next, target, seen)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Runs <style> blocks and style="..." attributes through the same CSS pipeline,
+   * with references made relative to the page itself.
+   */
+  private async processInlineStyles(doc: Document, baseUrl: string, pagePath: string) {
+    const styleElements = Array.from(doc.querySelectorAll('style'));
+    const styledElements = Array.from(doc.querySelectorAll('[style]'));
+
+    await Promise.all([
+      ...styleElements.map(async (el) => {
+        el.textContent = await this.processCssAssets(el.textContent || '', baseUrl, pagePath);
+      }),
+      ...styledElements.map(async (el) => {
+        el.setAttribute('style', await this.processCssAssets(el.getAttribute('style') || '', baseUrl, pagePath));
+      }),
+    ]);
+  }
+
+  /**
+   * Runs inline <script type="module"> blocks through the JS pipeline, with
+   * specifiers made relative to the page itself.
+   */
+  private async processInlineModules(doc: Document, baseUrl: string, pagePath: string) {
+    const modules = Array.from(doc.querySelectorAll('script[type="module"]:not([src])'));
+    await Promise.all(modules.map(async (el) => {
+      el.textContent = await this.processJsAssets(el.textContent || '', baseUrl, pagePath);
+    }));
+  }
+
+  /**
+   * Runs the post-processing pipeline on a page whose assets are all settled.
+   */
+  private async postProcess(doc: Document, baseUrl: string) {
+    const counts = await postProcessPage(doc, this.config.postProcessing, {
+      resolveUrl: (value) => this.resolveUrl(value, baseUrl),
+      isLocal: (url) => this.assets.has(url),
+      getRewrittenContent: (url) => this.rewrittenContent.get(url),
+      isExternal: (url) => this.ruleSet.isThirdParty(url),
+      registersServiceWorker: (url) => this.serviceWorkerScripts.has(url),
     });
-    
-    // Rewrite <video/source src>
-    doc.querySelectorAll('source[src], video[src]').forEach((el) => {
-      const src = el.getAttribute('src');
-      if (src) {
-        const abs = this.resolveUrl(src);
-        const asset = this.assets.get(abs);
-        if (asset) {
-          el.setAttribute('src', `assets/${asset.filename}`);
+    for (const [id, count] of Object.entries(counts) as [PostProcessTransform, number][]) {
+      this.postProcessCounts[id] = (this.postProcessCounts[id] ?? 0) + count;
+    }
+  }
+
+  /**
+   * Points every attribute covered by the extraction table at its local copy.
+   * Skipped resources are pointed at their absolute URL so they still load online.
+   */
+  private rewriteHtml(doc: Document, baseUrl: string, pagePath: string) {
+    if (this.ruleSet.thirdPartyPolicy === 'drop') {
+      this.dropThirdPartyReferences(doc, baseUrl);
+    }
+
+    for (const rule of this.extractionRules) {
+      doc.querySelectorAll(rule.selector).forEach((el) => {
+        const value = el.getAttribute(rule.attribute);
+        if (!value) return;
+
+        el.setAttribute(rule.attribute, rewriteRuleValue(rule, value, (src) => {
+          const absoluteUrl = this.resolveUrl(src, baseUrl);
+          const [assetUrl, fragment] = splitFragment(absoluteUrl);
+          const asset = this.assets.get(assetUrl);
+          if (asset) return relativePath(pagePath, asset.path) + fragment;
+          return this.skipped.has(assetUrl) ? absoluteUrl : null;
+        }));
+      });
+    }
+  }
+
+  /**
+   * Removes references to third-party resources. Elements whose only purpose is
+   * loading the resource (script, img, link, meta) go entirely; otherwise just the attribute.
+   */
+  private dropThirdPartyReferences(doc: Document, baseUrl: string) {
+    for (const rule of this.extractionRules) {
+      doc.querySelectorAll(rule.selector).forEach((el) => {
+        const value = el.getAttribute(rule.attribute);
+        if (!value) return;
+
+        const remaining = removeRuleUrls(rule, value, (src) => this.ruleSet.shouldDrop(this.resolveUrl(src, baseUrl)));
+        if (remaining === value) return;
+        if (remaining !== null) {
+          el.setAttribute(rule.attribute, remaining);
+        } else if (['src', 'href', 'content'].includes(rule.attribute)) {
+          el.remove();
+        } else {
+          el.removeAttribute(rule.attribute);
         }
-      }
-    });
+      });
+    }
   }
 
-  private resolveUrl(rel: string): string {
+  private resolveUrl(rel: string, baseUrl: string): string {
     try {
-        // We rely on the doc base URI being correct or manually resolving against stored base
-        // Since we parsed the doc, its baseURI might be empty or about:blank
-        return new URL(rel, this.url.href).href;
+        // The parsed doc has no usable baseURI, so resolve against the page's own base URL
+        return new URL(rel, baseUrl).href;
     } catch {
         return rel;
     }
@@ -358,31 +1510,18 @@ export class Crawler {
       case 'js': return 'js';
       case 'image': return 'images';
       case 'font': return 'fonts';
+      case 'video':
+      case 'audio': return 'media';
       default: return 'assets';
     }
   }
 
-  private getFilenameFromUrl(url: string, type: Asset['type']): string {
-    try {
-      const u = new URL(url);
-      let name = u.pathname.split('/').pop() || `index`;
-      // Remove query params if they exist in the name (sometimes happen)
-      name = name.split('?')[0];
-      
-      // Ensure extension
-      if (!name.includes('.')) {
-        if (type === 'css') name += '.css';
-        else if (type === 'js') name += '.js';
-        else if (type === 'image') name += '.png';
-        else name += '.dat';
-      }
-      
-      // Handle duplicates? 
-      // For this simple version, we trust the hash/query approach won't collide too much
-      // or we just overwrite.
-      return name;
-    } catch {
-      return `file_${Math.random().toString(36).substr(2, 5)}`;
-    }
+  private guessTypeFromUrl(url: string, fallback: Asset['type']): Asset['type'] {
+    const ext = getUrlExtension(new URL(url));
+    if (IMAGE_EXTENSIONS.includes(ext)) return 'image';
+    if (FONT_EXTENSIONS.includes(ext)) return 'font';
+    if (ext === '.css') return 'css';
+    if (ext === '.js' || ext === '.mjs') return 'js';
+    return fallback;
   }
-}
\ No newline at end of file
+}
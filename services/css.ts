@@ -0,0 +1,99 @@
+/**
+ * Lightweight CSS reference scanner.
+ *
+ * Finds every URL a stylesheet depends on (url(), @import, image-set() strings)
+ * together with its exact position, so references can be rewritten by splicing
+ * instead of searching and replacing text.
+ */
+
+export interface CssReference {
+  start: number;  // Offset of the URL text (without quotes) in the stylesheet
+  end: number;
+  url: string;
+  kind: 'url' | 'import' | 'image-set';
+  inFontFace: boolean;
+}
+
+/**
+ * Replaces comments with spaces of the same length so offsets stay valid
+ * while commented-out references are ignored.
+ */
+const maskComments = (css: string): string =>
+  css.replace(/\/\*[\s\S]*?(\*\/|$)/g, (comment) => ' '.repeat(comment.length));
+
+const findBlockEnd = (css: string, openIndex: number, open: string, close: string): number => {
+  let depth = 0;
+  for (let i = openIndex; i < css.length; i++) {
+    if (css[i] === open) depth++;
+    else if (css[i] === close && --depth === 0) return i;
+  }
+  return css.length;
+};
+
+export const findCssReferences = (css: string): CssReference[] => {
+  const masked = maskComments(css);
+  const refs: CssReference[] = [];
+
+  const fontFaceRanges: [number, number][] = [];
+  const fontFaceRegex = /@font-face\s*{/gi;
+  let match: RegExpExecArray | null;
+  while ((match = fontFaceRegex.exec(masked)) !== null) {
+    const open = match.index + match[0].length - 1;
+    fontFaceRanges.push([open, findBlockEnd(masked, open, '{', '}')]);
+  }
+  const inFontFace = (offset: number) => fontFaceRanges.some(([from, to]) => offset > from && offset < to);
+
+  // url(...), quoted or not. An @import in front of it makes it a stylesheet dependency.
+  const urlRanges: [number, number][] = [];
+  const urlRegex = /url\(\s*(['"]?)((?:\\.|[^\\])*?)\1\s*\)/dgi;
+  while ((match = urlRegex.exec(masked)) !== null) {
+    const [start, end] = match.indices![2];
+    const isImport = /@import\s*$/i.test(masked.slice(Math.max(0, match.index - 20), match.index));
+    urlRanges.push([match.index, match.index + match[0].length]);
+    refs.push({ start, end, url: css.slice(start, end), kind: isImport ? 'import' : 'url', inFontFace: inFontFace(match.index) });
+  }
+  const inUrl = (offset: number) => urlRanges.some(([from, to]) => offset >= from && offset < to);
+
+  // @import "file.css";
+  const importRegex = /@import\s+(['"])(.*?)\1/dgi;
+  while ((match = importRegex.exec(masked)) !== null) {
+    const [start, end] = match.indices![2];
+    refs.push({ start, end, url: css.slice(start, end), kind: 'import', inFontFace: false });
+  }
+
+  // image-set("a.png" 1x, "b.png" 2x) also accepts bare strings as image URLs
+  const imageSetRegex = /(?:-webkit-)?image-set\(/gi;
+  while ((match = imageSetRegex.exec(masked)) !== null) {
+    const open = match.index + match[0].length - 1;
+    const close = findBlockEnd(masked, open, '(', ')');
+    const stringRegex = /(['"])(.*?)\1/dg;
+    stringRegex.lastIndex = open;
+    let str: RegExpExecArray | null;
+    while ((str = stringRegex.exec(masked)) !== null && str.index < close) {
+      if (inUrl(str.index)) continue;
+      const [start, end] = str.indices![2];
+      refs.push({ start, end, url: css.slice(start, end), kind: 'image-set', inFontFace: inFontFace(str.index) });
+    }
+  }
+
+  return refs.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Rewrites the given references back to front so earlier offsets stay valid.
+ * `replace` returns the new URL text, or null to keep the original.
+ */
+export const rewriteCssReferences = (
+  css: string,
+  refs: CssReference[],
+  replace: (ref: CssReference) => string | null
+): string => {
+  let result = css;
+  for (const ref of [...refs].sort((a, b) => b.start - a.start)) {
+    const replacement = replace(ref);
+    if (replacement !== null) {
+      result = result.slice(0, ref.start) + replacement + result.slice(ref.end);
+    }
+  }
+  return result;
+};
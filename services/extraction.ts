@@ -0,0 +1,146 @@
+/**
+ * Table of HTML attributes that reference downloadable resources, plus helpers
+ * to read and rewrite their values. The crawler uses the same table for both
+ * discovery and rewriting, so anything it downloads is also pointed at locally.
+ */
+import { ExtractionRule } from '../types';
+
+export const DEFAULT_EXTRACTION_RULES: ExtractionRule[] = [
+  // Stylesheets and scripts
+  { selector: 'link[rel~="stylesheet"][href]', attribute: 'href', type: 'css', format: 'url' },
+  { selector: 'script[src]', attribute: 'src', type: 'js', format: 'url' },
+  { selector: 'link[rel~="modulepreload"][href]', attribute: 'href', type: 'js', format: 'url' },
+
+  // Images, including responsive and lazy-loaded variants
+  { selector: 'img[src], input[type="image"][src]', attribute: 'src', type: 'image', format: 'url' },
+  { selector: 'img[srcset]', attribute: 'srcset', type: 'image', format: 'srcset' },
+  { selector: 'picture source[srcset]', attribute: 'srcset', type: 'image', format: 'srcset' },
+  { selector: '[data-src]', attribute: 'data-src', type: 'image', format: 'url' },
+  { selector: '[data-srcset]', attribute: 'data-srcset', type: 'image', format: 'srcset' },
+
+  // Media
+  { selector: 'video[src], video source[src]', attribute: 'src', type: 'video', format: 'url' },
+  { selector: 'audio[src], audio source[src]', attribute: 'src', type: 'audio', format: 'url' },
+  { selector: 'video[poster]', attribute: 'poster', type: 'image', format: 'url' },
+
+  // Icons
+  {
+    selector: 'link[rel~="icon"][href], link[rel~="apple-touch-icon"][href], link[rel~="apple-touch-icon-precomposed"][href], link[rel~="mask-icon"][href]',
+    attribute: 'href',
+    type: 'image',
+    format: 'url',
+  },
+
+  // Preloads, typed by their "as" attribute
+  { selector: 'link[rel~="preload"][as="style"][href]', attribute: 'href', type: 'css', format: 'url' },
+  { selector: 'link[rel~="preload"][as="script"][href]', attribute: 'href', type: 'js', format: 'url' },
+  { selector: 'link[rel~="preload"][as="image"][href]', attribute: 'href', type: 'image', format: 'url' },
+  { selector: 'link[rel~="preload"][as="image"][imagesrcset]', attribute: 'imagesrcset', type: 'image', format: 'srcset' },
+  { selector: 'link[rel~="preload"][as="font"][href]', attribute: 'href', type: 'font', format: 'url' },
+  { selector: 'link[rel~="preload"][as="video"][href]', attribute: 'href', type: 'video', format: 'url' },
+  { selector: 'link[rel~="preload"][as="audio"][href]', attribute: 'href', type: 'audio', format: 'url' },
+
+  // Embedded documents and plugins; the body decides what they are
+  { selector: 'object[data]', attribute: 'data', type: 'other', format: 'url' },
+  { selector: 'embed[src]', attribute: 'src', type: 'other', format: 'url' },
+
+  // SVG references. Older markup uses xlink:href, which attribute selectors cannot
+  // match once the parser has put it in the XLink namespace, so those rules select every element
+  { selector: 'svg use[href], svg image[href]', attribute: 'href', type: 'image', format: 'url' },
+  { selector: 'svg use, svg image', attribute: 'xlink:href', type: 'image', format: 'url' },
+
+  // Web app manifest; its icons are fetched when the manifest is processed
+  { selector: 'link[rel~="manifest"][href]', attribute: 'href', type: 'other', format: 'url' },
+
+  // Social preview images
+  {
+    selector: 'meta[property="og:image"], meta[property="og:image:url"], meta[property="og:image:secure_url"], meta[name="twitter:image"]',
+    attribute: 'content',
+    type: 'image',
+    format: 'url',
+  },
+];
+
+interface SrcsetCandidate {
+  url: string;
+  descriptor: string;
+}
+
+/**
+ * Parses a srcset value ("a.png 1x, b.png 2x") following the HTML spec closely
+ * enough to cope with commas inside URLs and descriptors.
+ */
+export const parseSrcset = (value: string): SrcsetCandidate[] => {
+  const candidates: SrcsetCandidate[] = [];
+  let pos = 0;
+
+  while (pos < value.length) {
+    while (pos < value.length && /[\s,]/.test(value[pos])) pos++;
+    if (pos >= value.length) break;
+
+    let start = pos;
+    while (pos < value.length && !/\s/.test(value[pos])) pos++;
+    let url = value.slice(start, pos);
+    let descriptor = '';
+
+    if (url.endsWith(',')) {
+      url = url.replace(/,+$/, '');
+    } else {
+      start = pos;
+      let depth = 0;
+      while (pos < value.length && (value[pos] !== ',' || depth > 0)) {
+        if (value[pos] === '(') depth++;
+        else if (value[pos] === ')') depth--;
+        pos++;
+      }
+      descriptor = value.slice(start, pos).trim();
+    }
+
+    if (url) candidates.push({ url, descriptor });
+  }
+
+  return candidates;
+};
+
+const serializeSrcset = (candidates: SrcsetCandidate[]): string =>
+  candidates.map(c => (c.descriptor ? `${c.url} ${c.descriptor}` : c.url)).join(', ');
+
+/**
+ * Returns the raw (unresolved) URLs contained in an attribute value.
+ */
+export const getRuleUrls = (rule: ExtractionRule, value: string): string[] => {
+  if (rule.format === 'srcset') return parseSrcset(value).map(c => c.url);
+  const url = value.trim();
+  return url ? [url] : [];
+};
+
+/**
+ * Rewrites every URL in an attribute value. `replace` returns the new URL,
+ * or null to keep the original.
+ */
+export const rewriteRuleValue = (
+  rule: ExtractionRule,
+  value: string,
+  replace: (url: string) => string | null
+): string => {
+  if (rule.format === 'srcset') {
+    return serializeSrcset(parseSrcset(value).map(c => ({ ...c, url: replace(c.url) ?? c.url })));
+  }
+  return replace(value.trim()) ?? value;
+};
+
+/**
+ * Removes the URLs for which `remove` returns true. Returns the remaining value,
+ * or null when nothing is left and the attribute should go entirely.
+ */
+export const removeRuleUrls = (
+  rule: ExtractionRule,
+  value: string,
+  remove: (url: string) => boolean
+): string | null => {
+  if (rule.format === 'srcset') {
+    const kept = parseSrcset(value).filter(c => !remove(c.url));
+    return kept.length > 0 ? serializeSrcset(kept) : null;
+  }
+  return remove(value.trim()) ? null : value;
+};
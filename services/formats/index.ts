@@ -0,0 +1,120 @@
+/**
+ * Output formats. Every format is fed the same data during a crawl: the rewritten
+ * archive files and the raw responses they came from. Each builder keeps only
+ * what it needs and produces its output through the OutputSink at the end.
+ */
+import { CapturedResponse, ExtractionRule, HtmlAdapter, OutputFormat, OutputSink } from '../../types';
+import { buildWarc } from './warc';
+import { buildSingleFileHtml } from './singlefile';
+import { MANIFEST_PATH } from '../manifest';
+
+export interface BuildContext {
+  archiveName: string;       // File name without extension, e.g. "example_com_source"
+  entryPath: string;         // Archive path of the entry page
+  pageUrls: Map<string, string>; // Archive path -> original URL of every saved page
+  html: HtmlAdapter;
+  extractionRules: ExtractionRule[];
+  onProgress?: (done: number, total: number) => void; // Files written while the output is finished
+}
+
+export interface ArchiveBuilder {
+  addFile(path: string, content: Blob | string): Promise<void>;
+  addResponse(response: CapturedResponse): void;
+  /** Stores manifest.json in whatever way suits the format */
+  addManifest(json: string): Promise<void>;
+  /** True if the builder wants response bodies kept in memory until build() */
+  readonly needsResponses: boolean;
+  build(context: BuildContext): Promise<string>;
+}
+
+export const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  'zip': 'ZIP archive',
+  'warc': 'WARC 1.1',
+  'html': 'Single-file HTML',
+};
+
+export const OUTPUT_FORMAT_EXTENSIONS: Record<OutputFormat, string> = {
+  'zip': '.zip',
+  'warc': '.warc',
+  'html': '.html',
+};
+
+/**
+ * Streams files straight into the sink as they are stored; the sink decides how
+ * they are packaged.
+ */
+class ZipBuilder implements ArchiveBuilder {
+  readonly needsResponses = false;
+
+  constructor(private sink: OutputSink) {}
+
+  addFile(path: string, content: Blob | string) {
+    return this.sink.write(path, content);
+  }
+
+  addResponse() {}
+
+  addManifest(json: string) {
+    return this.sink.write(MANIFEST_PATH, json);
+  }
+
+  build(context: BuildContext) {
+    return this.sink.close(context.archiveName, context.onProgress);
+  }
+}
+
+class WarcBuilder implements ArchiveBuilder {
+  readonly needsResponses = true;
+  private responses: CapturedResponse[] = [];
+  private manifest: string | null = null;
+
+  constructor(private sink: OutputSink) {}
+
+  async addFile() {}
+
+  addResponse(response: CapturedResponse) {
+    this.responses.push(response);
+  }
+
+  async addManifest(json: string) {
+    this.manifest = json;
+  }
+
+  async build(context: BuildContext) {
+    const filename = `${context.archiveName}.warc`;
+    await this.sink.write(filename, await buildWarc(this.responses, filename, this.manifest));
+    return this.sink.close(context.archiveName, context.onProgress);
+  }
+}
+
+class SingleFileBuilder implements ArchiveBuilder {
+  readonly needsResponses = false;
+  private files = new Map<string, Blob | string>();
+  private manifest: string | null = null;
+
+  constructor(private sink: OutputSink) {}
+
+  async addFile(path: string, content: Blob | string) {
+    this.files.set(path, content);
+  }
+
+  addResponse() {}
+
+  async addManifest(json: string) {
+    this.manifest = json;
+  }
+
+  async build(context: BuildContext) {
+    const html = await buildSingleFileHtml(this.files, context, this.manifest);
+    await this.sink.write(`${context.archiveName}.html`, html);
+    return this.sink.close(context.archiveName, context.onProgress);
+  }
+}
+
+export const createArchiveBuilder = (format: OutputFormat, sink: OutputSink): ArchiveBuilder => {
+  switch (format) {
+    case 'zip': return new ZipBuilder(sink);
+    case 'warc': return new WarcBuilder(sink);
+    case 'html': return new SingleFileBuilder(sink);
+  }
+};
@@ -0,0 +1,137 @@
+/**
+ * Single-file HTML: the entry page with every local asset inlined as a data URI.
+ * Stylesheets are inlined recursively, so their own url() and @import references
+ * become data URIs as well. Links and frames to other crawled pages point back to the live site.
+ * The crawl manifest is embedded as a JSON script block (#siteripper-manifest).
+ */
+import { findCssReferences, rewriteCssReferences } from '../css';
+import { getRuleUrls, rewriteRuleValue } from '../extraction';
+import { sriDigest } from '../hash';
+import { getMimeTypeForPath } from '../mime';
+import { resolveArchivePath } from '../paths';
+import { pickSriAlgorithm } from '../postprocess';
+import { BuildContext } from './index';
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const readText = async (content: Blob | string): Promise<string> =>
+  typeof content === 'string' ? content : content.text();
+
+const readBytes = async (content: Blob | string): Promise<Uint8Array> =>
+  typeof content === 'string' ? new TextEncoder().encode(content) : new Uint8Array(await content.arrayBuffer());
+
+export const buildSingleFileHtml = async (
+  files: Map<string, Blob | string>,
+  context: BuildContext,
+  manifest: string | null = null
+): Promise<string> => {
+  const entry = files.get(context.entryPath);
+  if (entry === undefined) {
+    throw new Error(`Entry page ${context.entryPath} is missing from the archive`);
+  }
+
+  const dataUris = new Map<string, string>();
+
+  const toDataUri = async (path: string, stack: string[] = []): Promise<string | null> => {
+    const cached = dataUris.get(path);
+    if (cached) return cached;
+
+    const content = files.get(path);
+    if (content === undefined || stack.includes(path)) return null;
+
+    const mimeType = getMimeTypeForPath(path);
+    const bytes = mimeType === 'text/css'
+      ? new TextEncoder().encode(await inlineCss(await readText(content), path, [...stack, path]))
+      : await readBytes(content);
+
+    const uri = `data:${mimeType};base64,${toBase64(bytes)}`;
+    dataUris.set(path, uri);
+    return uri;
+  };
+
+  const inlineCss = async (css: string, cssPath: string, stack: string[] = []): Promise<string> => {
+    const refs = findCssReferences(css);
+    const replacements = new Map<string, string | null>();
+    for (const ref of refs) {
+      const target = resolveArchivePath(cssPath, ref.url.trim());
+      if (target && !replacements.has(target)) {
+        replacements.set(target, await toDataUri(target, stack));
+      }
+    }
+    return rewriteCssReferences(css, refs, (ref) => {
+      const target = resolveArchivePath(cssPath, ref.url.trim());
+      return target ? replacements.get(target) ?? null : null;
+    });
+  };
+
+  const doc = context.html.parse(await readText(entry));
+
+  for (const rule of context.extractionRules) {
+    for (const el of Array.from(doc.querySelectorAll(rule.selector))) {
+      const value = el.getAttribute(rule.attribute);
+      if (!value) continue;
+
+      const replacements = new Map<string, string | null>();
+      for (const ref of getRuleUrls(rule, value)) {
+        // Keep the #fragment, e.g. the symbol of an SVG sprite
+        const hashIndex = ref.indexOf('#');
+        const target = resolveArchivePath(context.entryPath, hashIndex >= 0 ? ref.substring(0, hashIndex) : ref);
+        const uri = target ? await toDataUri(target) : null;
+        if (uri) replacements.set(ref, uri + (hashIndex >= 0 ? ref.substring(hashIndex) : ''));
+      }
+      el.setAttribute(rule.attribute, rewriteRuleValue(rule, value, (ref) => replacements.get(ref) ?? null));
+    }
+  }
+
+  // Integrity hashes describe the archived file, but the inlined copy differs
+  // (a stylesheet's own references are data URIs now), so hash what was inlined
+  for (const el of Array.from(doc.querySelectorAll('script[integrity], link[integrity]'))) {
+    const uri = el.getAttribute('src') ?? el.getAttribute('href') ?? '';
+    const base64 = uri.startsWith('data:') ? uri.indexOf(';base64,') : -1;
+    if (base64 < 0) continue;
+    const bytes = fromBase64(uri.substring(base64 + ';base64,'.length));
+    el.setAttribute('integrity', await sriDigest(new Blob([bytes]), pickSriAlgorithm(el.getAttribute('integrity')!)));
+  }
+
+  for (const el of Array.from(doc.querySelectorAll('style'))) {
+    el.textContent = await inlineCss(el.textContent || '', context.entryPath);
+  }
+  for (const el of Array.from(doc.querySelectorAll('[style]'))) {
+    el.setAttribute('style', await inlineCss(el.getAttribute('style') || '', context.entryPath));
+  }
+
+  // Other pages are not part of a single-file export, so send links and frames to the live site
+  const pageReferences: [string, string][] = [['a[href], area[href]', 'href'], ['iframe[src], frame[src]', 'src']];
+  for (const [selector, attribute] of pageReferences) {
+    for (const el of Array.from(doc.querySelectorAll(selector))) {
+      const href = el.getAttribute(attribute) || '';
+      const hashIndex = href.indexOf('#');
+      const target = resolveArchivePath(context.entryPath, hashIndex >= 0 ? href.substring(0, hashIndex) : href);
+      const originalUrl = target ? context.pageUrls.get(target) : undefined;
+      if (originalUrl && target !== context.entryPath) {
+        el.setAttribute(attribute, originalUrl + (hashIndex >= 0 ? href.substring(hashIndex) : ''));
+      }
+    }
+  }
+
+  if (manifest !== null) {
+    const script = doc.createElement('script');
+    script.setAttribute('type', 'application/json');
+    script.setAttribute('id', 'siteripper-manifest');
+    // Keep "</script>" inside URLs or errors from ending the block early
+    script.textContent = manifest.replace(/</g, '\\u003c');
+    (doc.head || doc.documentElement).appendChild(script);
+  }
+
+  return context.html.serialize(doc);
+};
@@ -0,0 +1,100 @@
+/**
+ * WARC 1.1 writer (ISO 28500). Produces one warcinfo record followed by a
+ * response record per response received, holding the status line and headers
+ * the transport returned together with the body. Error statuses and each
+ * redirect hop get a record of their own. The crawl manifest is
+ * stored as a resource record at urn:siteripper:manifest.json.
+ */
+import { CapturedResponse } from '../../types';
+import { sha256Hex } from '../hash';
+import { MANIFEST_PATH, TOOL_NAME, TOOL_VERSION } from '../manifest';
+
+const CRLF = '\r\n';
+
+// fetch() has already removed transfer and content encodings, so these headers
+// no longer describe the stored bytes.
+const DROPPED_HEADERS = ['content-encoding', 'transfer-encoding', 'content-length'];
+
+const encoder = new TextEncoder();
+
+const toBytes = async (body: Blob | string): Promise<Uint8Array> =>
+  typeof body === 'string' ? encoder.encode(body) : new Uint8Array(await body.arrayBuffer());
+
+const recordId = () => `<urn:uuid:${crypto.randomUUID()}>`;
+
+const warcDate = (timestamp: number) => new Date(timestamp).toISOString();
+
+const buildRecord = (fields: [string, string][], block: Uint8Array): BlobPart[] => {
+  const header = [
+    'WARC/1.1',
+    ...fields.map(([name, value]) => `${name}: ${value}`),
+    `Content-Length: ${block.byteLength}`,
+  ].join(CRLF);
+  return [header + CRLF + CRLF, block, CRLF + CRLF];
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+};
+
+export const buildWarc = async (
+  responses: CapturedResponse[],
+  filename: string,
+  manifest: string | null = null
+): Promise<Blob> => {
+  const warcinfoId = recordId();
+  const info = encoder.encode([
+    `software: ${TOOL_NAME}/${TOOL_VERSION}`,
+    'format: WARC File Format 1.1',
+    'conformsTo: https://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/',
+  ].join(CRLF) + CRLF);
+
+  const parts: BlobPart[] = buildRecord([
+    ['WARC-Type', 'warcinfo'],
+    ['WARC-Record-ID', warcinfoId],
+    ['WARC-Date', warcDate(Date.now())],
+    ['WARC-Filename', filename],
+    ['Content-Type', 'application/warc-fields'],
+  ], info);
+
+  for (const response of responses) {
+    const body = await toBytes(response.body);
+    const headerLines = Object.entries(response.headers)
+      .filter(([name]) => !DROPPED_HEADERS.includes(name.toLowerCase()))
+      .map(([name, value]) => `${name}: ${value}`);
+    const httpHead = encoder.encode([
+      `HTTP/1.1 ${response.status} ${response.statusText}`.trimEnd(),
+      ...headerLines,
+      `Content-Length: ${body.byteLength}`,
+    ].join(CRLF) + CRLF + CRLF);
+
+    parts.push(...buildRecord([
+      ['WARC-Type', 'response'],
+      ['WARC-Record-ID', recordId()],
+      ['WARC-Warcinfo-ID', warcinfoId],
+      ['WARC-Date', warcDate(response.fetchedAt)],
+      ['WARC-Target-URI', response.url],
+      ['WARC-Payload-Digest', `sha256:${await sha256Hex(new Blob([body]))}`],
+      ['Content-Type', 'application/http;msgtype=response'],
+    ], concat(httpHead, body)));
+  }
+
+  if (manifest !== null) {
+    parts.push(...buildRecord([
+      ['WARC-Type', 'resource'],
+      ['WARC-Record-ID', recordId()],
+      ['WARC-Warcinfo-ID', warcinfoId],
+      ['WARC-Date', warcDate(Date.now())],
+      ['WARC-Target-URI', `urn:siteripper:${MANIFEST_PATH}`],
+      ['Content-Type', 'application/json'],
+    ], encoder.encode(manifest)));
+  }
+
+  return new Blob(parts, { type: 'application/warc' });
+};
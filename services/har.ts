@@ -0,0 +1,144 @@
+/**
+ * Replays responses recorded in a HAR 1.2 file (e.g. exported from DevTools)
+ * so a crawl can run without touching the network. URLs that are not in the
+ * capture fail with a FetchError instead of being fetched.
+ */
+import { ReplaySource } from '../types';
+import { FetchError } from './proxy';
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  request: { method: string; url: string };
+  response: {
+    status: number;
+    statusText: string;
+    headers: HarHeader[];
+    redirectURL?: string;
+    content: { size: number; mimeType?: string; text?: string; encoding?: string };
+  };
+}
+
+// The recorded body is already decoded, so these no longer describe it
+const DROPPED_HEADERS = ['content-encoding', 'transfer-encoding', 'content-length'];
+
+// fetch() follows redirects; so does the replay, up to the same kind of limit
+const MAX_REDIRECTS = 10;
+
+const stripFragment = (url: string): string => url.split('#')[0];
+
+// Text bodies are recorded as decoded strings and replayed as UTF-8, whatever charset they were served in
+const withUtf8Charset = (contentType: string): string =>
+  `${contentType.replace(/;\s*charset\s*=[^;]*/i, '')}; charset=utf-8`;
+
+const decodeBase64 = (text: string): Uint8Array => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export class HarReplay implements ReplaySource {
+  readonly name: string;
+  private entries = new Map<string, HarEntry>();
+
+  private constructor(private fileName: string, entries: HarEntry[]) {
+    this.name = `har:${fileName}`;
+    for (const entry of entries) {
+      if (entry.request.method.toUpperCase() !== 'GET') continue;
+      const url = stripFragment(entry.request.url);
+      const existing = this.entries.get(url);
+      // Prefer a recording with a body over cache revalidations or aborted requests
+      if (!existing || (!this.hasBody(existing) && this.hasBody(entry))) {
+        this.entries.set(url, entry);
+      }
+    }
+  }
+
+  /**
+   * Parses the text of a .har file. Throws if it is not a HAR log.
+   */
+  static parse(text: string, name = 'capture.har'): HarReplay {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch (e: any) {
+      throw new Error(`${name} is not valid JSON: ${e.message}`);
+    }
+    if (!Array.isArray(data?.log?.entries)) {
+      throw new Error(`${name} is not a HAR file (no log.entries)`);
+    }
+    return new HarReplay(name, data.log.entries);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * URL of the first HTML document in the capture, a sensible crawl entry point.
+   */
+  get firstPageUrl(): string | null {
+    for (const [url, entry] of this.entries) {
+      if (entry.response.content.mimeType?.startsWith('text/html')) return url;
+    }
+    return null;
+  }
+
+  async fetch(url: string): Promise<Response> {
+    let target = stripFragment(url);
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      const entry = this.entries.get(target);
+      if (!entry) throw new FetchError(`Not recorded in ${this.fileName}: ${target}`);
+
+      const { response } = entry;
+      if (response.status >= 300 && response.status < 400 && response.status !== 304 && response.redirectURL) {
+        target = stripFragment(new URL(response.redirectURL, target).href);
+        continue;
+      }
+      if (!this.hasBody(entry)) {
+        throw new FetchError(`${this.fileName} has no body for ${target} (status ${response.status || 'blocked'})`);
+      }
+      if (response.status < 200 || response.status >= 300) {
+        const error = new FetchError(`Status ${response.status} recorded for ${target}`, response.status);
+        error.fromOrigin = true;
+        throw error;
+      }
+      return this.toResponse(entry);
+    }
+    throw new FetchError(`Too many redirects recorded for ${url}`);
+  }
+
+  private hasBody(entry: HarEntry): boolean {
+    const { status, content } = entry.response;
+    return status > 0 && status !== 304 && typeof content.text === 'string';
+  }
+
+  private toResponse(entry: HarEntry): Response {
+    const { response } = entry;
+    const headers = new Headers();
+    for (const { name, value } of response.headers) {
+      // HTTP/2 pseudo-headers (":status") are not valid header names
+      if (name.startsWith(':') || DROPPED_HEADERS.includes(name.toLowerCase())) continue;
+      try {
+        headers.append(name, value);
+      } catch {
+        // Malformed header in the capture, skip it
+      }
+    }
+    if (!headers.has('content-type') && response.content.mimeType) {
+      headers.set('content-type', response.content.mimeType);
+    }
+
+    const text = response.content.text!;
+    const base64 = response.content.encoding === 'base64';
+    if (!base64 && headers.has('content-type')) {
+      headers.set('content-type', withUtf8Charset(headers.get('content-type')!));
+    }
+    const body = response.status === 204 || response.status === 205 ? null : base64 ? decodeBase64(text) : text;
+    return new Response(body, { status: response.status, statusText: response.statusText, headers });
+  }
+}
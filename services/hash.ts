@@ -0,0 +1,38 @@
+/**
+ * Hashing helpers used for file naming and integrity data.
+ */
+
+/**
+ * Small, synchronous FNV-1a hash. Only used to disambiguate file names,
+ * never for integrity checks.
+ */
+export const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const toBytes = async (content: Blob | string): Promise<ArrayBuffer | Uint8Array> =>
+  typeof content === 'string' ? new TextEncoder().encode(content) : content.arrayBuffer();
+
+/**
+ * Hex-encoded SHA-256 of a string (hashed as UTF-8) or Blob.
+ */
+export const sha256Hex = async (content: Blob | string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await toBytes(content));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export type SriAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+/**
+ * Subresource Integrity value ("sha384-<base64>") for the given content.
+ */
+export const sriDigest = async (content: Blob | string, algorithm: SriAlgorithm): Promise<string> => {
+  const name = { sha256: 'SHA-256', sha384: 'SHA-384', sha512: 'SHA-512' }[algorithm];
+  const digest = new Uint8Array(await crypto.subtle.digest(name, await toBytes(content)));
+  return `${algorithm}-${btoa(String.fromCharCode(...digest))}`;
+};
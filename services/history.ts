@@ -0,0 +1,93 @@
+/**
+ * Persistent crawl history backed by IndexedDB. Every finished, failed or
+ * cancelled crawl is recorded with the options it ran with; the built output of
+ * the most recent ones is kept alongside so it can be downloaded again.
+ */
+import { HistoryEntry } from '../types';
+import { redactAuthProfile } from './auth';
+
+const DB_NAME = 'siteripper-history';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+const ARCHIVES = 'archives'; // Output blobs keyed by entry id, so listing the history stays cheap
+
+/** Older outputs are dropped to stay within the browser's storage quota; their entries remain */
+export const MAX_ARCHIVES = 10;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDbHistory {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(ENTRIES, { keyPath: 'id' });
+          request.result.createObjectStore(ARCHIVES);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  /**
+   * Records a crawl, replacing an earlier record with the same id (e.g. once a
+   * cancelled crawl's partial output has been built).
+   */
+  async put(entry: HistoryEntry, archive: Blob | null = null): Promise<void> {
+    let archived = false;
+    if (archive) {
+      try {
+        await promisify((await this.store(ARCHIVES, 'readwrite')).put(archive, entry.id));
+        archived = true;
+      } catch {
+        // Over quota: keep the record without its output
+      }
+    }
+    // Auth profiles are kept for their names and ids only; secrets never reach the history
+    const options = { ...entry.options, authProfiles: entry.options.authProfiles.map(redactAuthProfile) };
+    await promisify((await this.store(ENTRIES, 'readwrite')).put({ ...entry, options, archived }));
+    if (archived) await this.pruneArchives();
+  }
+
+  /** Newest first */
+  async list(): Promise<HistoryEntry[]> {
+    const entries: HistoryEntry[] = await promisify((await this.store(ENTRIES, 'readonly')).getAll());
+    return entries.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async getArchive(id: string): Promise<Blob | undefined> {
+    return promisify((await this.store(ARCHIVES, 'readonly')).get(id));
+  }
+
+  async delete(id: string): Promise<void> {
+    await promisify((await this.store(ARCHIVES, 'readwrite')).delete(id));
+    await promisify((await this.store(ENTRIES, 'readwrite')).delete(id));
+  }
+
+  async clear(): Promise<void> {
+    await promisify((await this.store(ARCHIVES, 'readwrite')).clear());
+    await promisify((await this.store(ENTRIES, 'readwrite')).clear());
+  }
+
+  private async pruneArchives() {
+    const archived = (await this.list()).filter(entry => entry.archived);
+    for (const entry of archived.slice(MAX_ARCHIVES)) {
+      await promisify((await this.store(ARCHIVES, 'readwrite')).delete(entry.id));
+      await promisify((await this.store(ENTRIES, 'readwrite')).put({ ...entry, archived: false }));
+    }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Batch crawling: turns pasted or uploaded URL lists into a queue of independent
+ * crawls and runs a configurable number of them at a time, each with its own
+ * state, stats and log.
+ */
+import { Crawler, CrawlCancelledError } from './crawler';
+import { createEmptyStats } from './stats';
+import { AppState, CrawlConfig, CrawlStats, HtmlAdapter, LogEntry, LogLevel, OutputSink, ResponseCache } from '../types';
+
+export interface CrawlJob<S extends OutputSink> {
+  id: string;
+  url: string;
+  config: CrawlConfig;
+  state: AppState; // IDLE while queued
+  stats: CrawlStats;
+  logs: LogEntry[];
+  error: string | null;
+  sink: S | null; // Set once the job starts
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export interface JobQueueOptions<S extends OutputSink> {
+  htmlAdapter: HtmlAdapter;
+  cache?: ResponseCache;
+  createSink: (config: CrawlConfig) => S;
+  onChange: (jobs: CrawlJob<S>[]) => void;
+  onSettled?: (job: CrawlJob<S>) => void; // A job that ran has finished, failed or been cancelled
+}
+
+export const MAX_PARALLEL_JOBS = 8;
+
+const SETTLED_STATES = [AppState.FINISHED, AppState.CANCELLED, AppState.ERROR];
+
+export const isJobSettled = (job: CrawlJob<OutputSink>): boolean => SETTLED_STATES.includes(job.state);
+
+const HTTP_URL = /^https?:\/\//i;
+const BARE_HOST = /^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}(:\d+)?(\/\S*)?$/i;
+
+/**
+ * Extracts URLs from pasted text, a text file (one per line) or a CSV export
+ * (the first cell of each row that looks like a URL). Bare host names get
+ * https://. Blank lines and # comments are ignored, duplicates dropped, and
+ * lines without a URL, such as a CSV header, are returned in `rejected`.
+ */
+export const parseUrlList = (text: string): { urls: string[]; rejected: string[] } => {
+  const urls = new Set<string>();
+  const rejected: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const cells = line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+    const cell = cells.find(value => HTTP_URL.test(value)) ?? cells.find(value => BARE_HOST.test(value));
+    try {
+      if (!cell) throw new Error('No URL');
+      urls.add(new URL(HTTP_URL.test(cell) ? cell : `https://${cell}`).href);
+    } catch {
+      rejected.push(line);
+    }
+  }
+  return { urls: Array.from(urls), rejected };
+};
+
+export class JobQueue<S extends OutputSink> {
+  private jobs: CrawlJob<S>[] = [];
+  private running = new Set<string>();
+  private crawlers = new Map<string, Crawler>();
+  private parallel = 2;
+
+  constructor(private options: JobQueueOptions<S>) {}
+
+  get concurrency(): number {
+    return this.parallel;
+  }
+
+  setConcurrency(parallel: number) {
+    this.parallel = Math.min(MAX_PARALLEL_JOBS, Math.max(1, Math.floor(parallel) || 1));
+    this.pump();
+  }
+
+  /**
+   * Queues one job per URL, all with the same settings.
+   */
+  add(urls: string[], config: CrawlConfig) {
+    for (const url of urls) {
+      this.jobs.push({
+        id: crypto.randomUUID(),
+        url,
+        config,
+        state: AppState.IDLE,
+        stats: createEmptyStats(),
+        logs: [],
+        error: null,
+        sink: null,
+        startedAt: null,
+        finishedAt: null,
+      });
+    }
+    this.emit();
+    this.pump();
+  }
+
+  /**
+   * Drops a queued job, or stops a running one.
+   */
+  cancel(id: string) {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    if (job?.state === AppState.IDLE) {
+      this.update(id, { state: AppState.CANCELLED, finishedAt: Date.now() });
+    } else {
+      this.crawlers.get(id)?.cancel();
+    }
+  }
+
+  /**
+   * Removes a job that is not running from the list.
+   */
+  remove(id: string) {
+    if (this.running.has(id)) return;
+    this.jobs = this.jobs.filter(job => job.id !== id);
+    this.emit();
+  }
+
+  clearSettled() {
+    this.jobs = this.jobs.filter(job => !isJobSettled(job));
+    this.emit();
+  }
+
+  private pump() {
+    for (const job of this.jobs) {
+      if (this.running.size >= this.parallel) break;
+      if (job.state === AppState.IDLE && !this.running.has(job.id)) this.run(job);
+    }
+  }
+
+  private async run(job: CrawlJob<S>) {
+    this.running.add(job.id);
+    const sink = this.options.createSink(job.config);
+    this.update(job.id, { state: AppState.CRAWLING, sink, startedAt: Date.now() });
+
+    let crawler: Crawler | null = null;
+    try {
+      crawler = new Crawler({
+        url: job.url,
+        ...job.config,
+        htmlAdapter: this.options.htmlAdapter,
+        sink,
+        cache: this.options.cache,
+        onLog: (entry) => this.update(job.id, current => ({ logs: [...current.logs, entry] })),
+        onStatsUpdate: (stats) => this.update(job.id, { stats }),
+        onStateChange: (state) => this.update(job.id, { state }),
+      });
+      this.crawlers.set(job.id, crawler);
+      await crawler.start();
+      this.update(job.id, { state: AppState.FINISHED });
+    } catch (error) {
+      if (error instanceof CrawlCancelledError) {
+        this.update(job.id, { state: AppState.CANCELLED });
+      } else {
+        const message = (error as Error).message;
+        this.update(job.id, current => ({
+          state: AppState.ERROR,
+          error: message,
+          // Bad URL or settings: the crawler never started, so nothing was logged yet
+          logs: crawler ? current.logs : [
+            ...current.logs,
+            { id: Math.random().toString(36).substr(2, 9), timestamp: Date.now(), message, level: LogLevel.ERROR },
+          ],
+        }));
+      }
+    } finally {
+      this.update(job.id, { finishedAt: Date.now() });
+      this.running.delete(job.id);
+      this.crawlers.delete(job.id);
+      const settled = this.jobs.find(candidate => candidate.id === job.id);
+      if (settled) this.options.onSettled?.(settled);
+      this.pump();
+    }
+  }
+
+  private update(id: string, patch: Partial<CrawlJob<S>> | ((job: CrawlJob<S>) => Partial<CrawlJob<S>>)) {
+    this.jobs = this.jobs.map(job => job.id === id ? { ...job, ...(typeof patch === 'function' ? patch(job) : patch) } : job);
+    this.emit();
+  }
+
+  private emit() {
+    this.options.onChange(this.jobs);
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * Static JavaScript dependency scanner.
+ *
+ * Finds ES module specifiers (import / export-from / import()), assets loaded
+ * through `new URL(..., import.meta.url)`, Vite preload dependency lists and
+ * webpack chunk URL maps. Like the CSS scanner it records exact offsets, so
+ * literal specifiers can be rewritten by splicing. Nothing is evaluated.
+ */
+
+export interface JsReference {
+  start: number;  // Offset of the specifier text (without quotes), -1 if it is not a literal in the source
+  end: number;
+  url: string;
+  kind: 'import' | 'dynamic-import' | 'meta-url' | 'preload' | 'chunk';
+  rewritable: boolean; // Only literal module specifiers and meta URLs can be pointed at local copies
+}
+
+export interface UnresolvedJsReference {
+  reference: string;
+  reason: string;
+}
+
+export interface JsScanResult {
+  references: JsReference[];
+  unresolved: UnresolvedJsReference[];
+}
+
+// Characters after which a "/" starts a regular expression rather than a division
+const REGEX_PRECEDERS = '(,=:[!&|?{};+-*%<>~^';
+
+const skipQuoted = (js: string, start: number, quote: string): number => {
+  for (let i = start + 1; i < js.length; i++) {
+    if (js[i] === '\\') i++;
+    else if (js[i] === quote) return i + 1;
+    else if (js[i] === '\n' && quote !== '`') return i;
+  }
+  return js.length;
+};
+
+const skipRegexLiteral = (js: string, start: number): number => {
+  let inClass = false;
+  for (let i = start + 1; i < js.length; i++) {
+    const char = js[i];
+    if (char === '\\') i++;
+    else if (char === '[') inClass = true;
+    else if (char === ']') inClass = false;
+    else if (char === '/' && !inClass) return i + 1;
+    else if (char === '\n') return i;
+  }
+  return js.length;
+};
+
+/**
+ * Replaces comments with spaces (keeping line breaks) so offsets stay valid.
+ * Strings and regex literals are skipped so "//" inside a URL is not a comment.
+ * With `maskStrings`, string and template bodies are blanked too (keeping the
+ * quotes, and the "$" of template substitutions), so import-like text inside a
+ * string is not taken for code. Specifiers are then read from the original.
+ */
+const maskComments = (js: string, maskStrings = false): string => {
+  const out = js.split('');
+  const blank = (from: number, to: number) => {
+    for (let k = from; k < to; k++) if (out[k] !== '\n') out[k] = ' ';
+  };
+  let last = '';
+  let i = 0;
+  while (i < js.length) {
+    const char = js[i];
+    const next = js[i + 1];
+    if (char === '/' && next === '/') {
+      const end = js.indexOf('\n', i);
+      const stop = end === -1 ? js.length : end;
+      blank(i, stop);
+      i = stop;
+    } else if (char === '/' && next === '*') {
+      const end = js.indexOf('*/', i + 2);
+      const stop = end === -1 ? js.length : end + 2;
+      blank(i, stop);
+      i = stop;
+    } else if (char === '"' || char === "'" || char === '`') {
+      const end = skipQuoted(js, i, char);
+      if (maskStrings) {
+        const bodyEnd = end - 1 > i && js[end - 1] === char ? end - 1 : end;
+        for (let k = i + 1; k < bodyEnd; k++) {
+          if (out[k] !== '\n' && !(char === '`' && js[k] === '$' && js[k + 1] === '{')) out[k] = ' ';
+        }
+      }
+      i = end;
+      last = char;
+    } else if (char === '/' && (last === '' || REGEX_PRECEDERS.includes(last))) {
+      i = skipRegexLiteral(js, i);
+      last = '/';
+    } else {
+      if (!/\s/.test(char)) last = char;
+      i++;
+    }
+  }
+  return out.join('');
+};
+
+/**
+ * Specifiers that name a URL. Bare specifiers ("react") need an import map or
+ * a bundler, so there is nothing to download for them.
+ */
+const isUrlSpecifier = (specifier: string): boolean =>
+  /^(\.{1,2}\/|\/|https?:\/\/)/i.test(specifier);
+
+/**
+ * Reads the expression that starts at `from` up to the first top-level
+ * `;`, `,` or closing bracket.
+ */
+const readExpression = (js: string, from: number): string => {
+  let depth = 0;
+  for (let i = from; i < js.length; i++) {
+    const char = js[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = skipQuoted(js, i, char) - 1;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      if (depth === 0) return js.slice(from, i);
+      depth--;
+    } else if ((char === ';' || char === ',') && depth === 0) {
+      return js.slice(from, i);
+    }
+  }
+  return js.slice(from);
+};
+
+const splitTopLevel = (expression: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (char === '"' || char === "'") {
+      i = skipQuoted(expression, i, char) - 1;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(expression.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(expression.slice(start));
+  return parts.map(part => part.trim());
+};
+
+const parseObjectMap = (source: string): Map<string, string> => {
+  const map = new Map<string, string>();
+  const entryRegex = /(?:"([^"]*)"|'([^']*)'|([\w$]+))\s*:\s*(?:"([^"]*)"|'([^']*)'|(\d+))/g;
+  for (const match of source.matchAll(entryRegex)) {
+    map.set(match[1] ?? match[2] ?? match[3], match[4] ?? match[5] ?? match[6]);
+  }
+  return map;
+};
+
+type ChunkTerm =
+  | { kind: 'literal'; value: string }
+  | { kind: 'id' }
+  | { kind: 'lookup'; map: Map<string, string>; fallbackToId: boolean };
+
+/**
+ * Understands the concatenations webpack emits for chunk file names, e.g.
+ *   "static/js/" + e + "." + {12:"a1b2"}[e] + ".chunk.js"
+ *   ({179:"main"}[e] || e) + "." + {179:"3f2c"}[e] + ".js"
+ */
+const parseChunkExpression = (expression: string, idVar: string): ChunkTerm[] | null => {
+  const terms: ChunkTerm[] = [];
+  const escapedVar = idVar.replace(/\$/g, '\\$');
+  for (let part of splitTopLevel(expression, '+')) {
+    let literal: RegExpMatchArray | null;
+    let lookup: RegExpMatchArray | null;
+    // Drop redundant wrapping parentheses: "({...}[e] || e)"
+    while (part.startsWith('(') && readExpression(part, 1).length === part.length - 2) {
+      part = part.slice(1, -1).trim();
+    }
+    if ((literal = part.match(/^(["'])(.*)\1$/s))) {
+      terms.push({ kind: 'literal', value: literal[2] });
+    } else if (part === idVar) {
+      terms.push({ kind: 'id' });
+    } else if ((lookup = part.match(new RegExp(`^\\{([\\s\\S]*)\\}\\s*\\[${escapedVar}\\](\\s*\\|\\|\\s*${escapedVar})?$`)))) {
+      terms.push({ kind: 'lookup', map: parseObjectMap(lookup[1]), fallbackToId: !!lookup[2] });
+    } else {
+      return null;
+    }
+  }
+  return terms;
+};
+
+const expandChunkTerms = (terms: ChunkTerm[]): string[] => {
+  const ids = new Set<string>();
+  for (const term of terms) {
+    if (term.kind === 'lookup') term.map.forEach((_, id) => ids.add(id));
+  }
+  return Array.from(ids).map(id => terms.map(term => {
+    if (term.kind === 'literal') return term.value;
+    if (term.kind === 'id') return id;
+    return term.map.get(id) ?? (term.fallbackToId ? id : '');
+  }).join(''));
+};
+
+export const findJsReferences = (js: string): JsScanResult => {
+  // Statements are found in `masked`; expressions whose literals matter are read from `uncommented`
+  const uncommented = maskComments(js);
+  const masked = maskComments(js, true);
+  const references: JsReference[] = [];
+  const unresolved: UnresolvedJsReference[] = [];
+  let match: RegExpExecArray | null;
+
+  const addSpecifier = (kind: JsReference['kind'], start: number, end: number) => {
+    const specifier = js.slice(start, end);
+    if (isUrlSpecifier(specifier)) {
+      references.push({ start, end, url: specifier, kind, rewritable: true });
+    } else {
+      unresolved.push({ reference: specifier, reason: 'Bare module specifier (needs an import map)' });
+    }
+  };
+
+  // import x from "./a.js", import "./a.js", export { x } from "./a.js"
+  const staticRegex = /(?<![\w$.])(?:import|export)\s*(?:[\w$*{}\s,]*?\s*from\s*)?(['"])([^'"\n]+)\1/dg;
+  while ((match = staticRegex.exec(masked)) !== null) {
+    const [start, end] = match.indices![2];
+    addSpecifier('import', start, end);
+  }
+
+  // import("./chunk.js"); anything that is not a plain string literal is computed at runtime
+  const dynamicRegex = /(?<![\w$.])import\s*\(\s*/g;
+  while ((match = dynamicRegex.exec(masked)) !== null) {
+    const argStart = match.index + match[0].length;
+    const literal = masked.slice(argStart).match(/^(['"`])([^'"`\n$]*)\1\s*[,)]/d);
+    if (literal) {
+      addSpecifier('dynamic-import', argStart + literal.indices![2][0], argStart + literal.indices![2][1]);
+    } else {
+      unresolved.push({ reference: `import(${readExpression(js, argStart).trim()})`, reason: 'Computed import() specifier' });
+    }
+  }
+
+  // new URL("./worker.js", import.meta.url)
+  const metaUrlRegex = /new\s+URL\s*\(\s*(['"`])([^'"`\n$]+)\1\s*,\s*import\.meta\.url\s*\)/dg;
+  while ((match = metaUrlRegex.exec(masked)) !== null) {
+    const [start, end] = match.indices![2];
+    references.push({ start, end, url: js.slice(start, end), kind: 'meta-url', rewritable: true });
+  }
+
+  // Vite: __vite__mapDeps lists ("m.f=[...]") and legacy __vitePreload(() => import(...), [...]) arrays.
+  // The entries are relative to the app base, not to this file, so they are downloaded but not rewritten.
+  const viteRegex = /(?:m\.f\s*\|\|\s*\(\s*m\.f\s*=\s*|__vitePreload\(\s*\(\)\s*=>\s*import\([^)]*\)\s*,\s*)\[([^\]]*)\]/dg;
+  while ((match = viteRegex.exec(masked)) !== null) {
+    const [listStart] = match.indices![1];
+    for (const dep of match[1].matchAll(/(['"])([^'"]+)\1/dg)) {
+      const [start, end] = dep.indices![2];
+      references.push({ start: listStart + start, end: listStart + end, url: js.slice(listStart + start, listStart + end), kind: 'preload', rewritable: false });
+    }
+  }
+
+  // webpack: __webpack_require__.u / .miniCssF build chunk file names from id -> hash maps
+  const chunkRegex = /\.(?:u|miniCssF)\s*=\s*(?:function\s*\(\s*([\w$]+)\s*\)\s*\{\s*return\s+|\(?\s*([\w$]+)\s*\)?\s*=>\s*)/g;
+  while ((match = chunkRegex.exec(masked)) !== null) {
+    const expression = readExpression(uncommented, match.index + match[0].length).trim();
+    const terms = parseChunkExpression(expression, match[1] ?? match[2]);
+    const files = terms ? expandChunkTerms(terms) : [];
+    if (files.length === 0) {
+      unresolved.push({ reference: expression.slice(0, 80), reason: 'Chunk file name pattern not recognised' });
+      continue;
+    }
+    for (const file of files) {
+      references.push({ start: -1, end: -1, url: file, kind: 'chunk', rewritable: false });
+    }
+  }
+
+  return { references: references.sort((a, b) => a.start - b.start), unresolved };
+};
+
+/**
+ * The webpack public path (`__webpack_require__.p = "/static/"`), if the runtime sets a fixed one.
+ */
+export const findWebpackPublicPath = (js: string): string | null => {
+  const match = maskComments(js).match(/(?:__webpack_require__|(?<![\w$.])[\w$]{1,3})\.p\s*=\s*(['"])([^'"]*)\1/);
+  return match && match[2] !== 'auto' ? match[2] : null;
+};
+
+/**
+ * Rewrites literal references back to front so earlier offsets stay valid.
+ * `replace` returns the new specifier, or null to keep the original.
+ */
+export const rewriteJsReferences = (
+  js: string,
+  refs: JsReference[],
+  replace: (ref: JsReference) => string | null
+): string => {
+  let result = js;
+  for (const ref of refs.filter(r => r.rewritable).sort((a, b) => b.start - a.start)) {
+    const replacement = replace(ref);
+    if (replacement !== null) {
+      result = result.slice(0, ref.start) + replacement + result.slice(ref.end);
+    }
+  }
+  return result;
+};
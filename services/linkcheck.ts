@@ -0,0 +1,88 @@
+/**
+ * Offline link-integrity check: walks every HTML and CSS file as written to the
+ * archive and works out whether each reference resolves to a file in it, still
+ * points at the network, or is inline data. Runs after rewriting, so it sees
+ * exactly what a reader opening the archive will get.
+ */
+import { findCssReferences } from './css';
+import { getRuleUrls } from './extraction';
+import { resolveArchivePath } from './paths';
+import { ExtractionRule, HtmlAdapter, LinkCheckEntry, LinkReport, LinkStatus } from '../types';
+
+// Elements that load another page into this one, and links the reader follows
+const FRAME_SELECTOR = 'iframe[src], frame[src]';
+const LINK_SELECTOR = 'a[href], area[href]';
+
+// Schemes that never name a file: nothing to check
+const IGNORED_SCHEMES = /^(mailto|tel|sms|javascript|about|blob):/i;
+
+const emptyCounts = (): Record<LinkStatus, number> => ({ resolved: 0, missing: 0, remote: 0, data: 0 });
+
+export const LINK_STATUS_LABELS: Record<LinkStatus, string> = {
+  resolved: 'Resolved',
+  missing: 'Missing',
+  remote: 'Remote',
+  data: 'Data URI',
+};
+
+/**
+ * Classifies one reference found in archive file `file`, or returns null if
+ * there is nothing to check (fragments, mailto: and the like).
+ */
+export const classifyReference = (file: string, ref: string, paths: ReadonlySet<string>): LinkStatus | null => {
+  const value = ref.trim();
+  if (!value || value.startsWith('#') || IGNORED_SCHEMES.test(value)) return null;
+  if (/^data:/i.test(value)) return 'data';
+  if (/^[a-z][a-z0-9+.-]*:/i.test(value) || value.startsWith('//')) return 'remote';
+
+  const target = resolveArchivePath(file, value.split('#')[0]);
+  if (target === null) return 'remote';
+  // Directory links open their index page
+  const path = target === '' || target.endsWith('/') ? `${target}index.html` : target;
+  return paths.has(path) ? 'resolved' : 'missing';
+};
+
+/**
+ * Checks the references in the archive's HTML and CSS files. `files` holds the
+ * text of those files, `paths` every file the archive contains.
+ */
+export const checkArchiveLinks = (
+  files: ReadonlyMap<string, string>,
+  paths: ReadonlySet<string>,
+  html: HtmlAdapter,
+  extractionRules: ExtractionRule[]
+): LinkReport => {
+  const report: LinkReport = { files: 0, counts: emptyCounts(), links: emptyCounts(), problems: [] };
+
+  const check = (file: string, url: string, kind: LinkCheckEntry['kind']) => {
+    const status = classifyReference(file, url, paths);
+    if (!status) return;
+    (kind === 'resource' ? report.counts : report.links)[status]++;
+    if (status === 'missing' || status === 'remote') report.problems.push({ file, url, kind, status });
+  };
+  const checkCss = (file: string, css: string) => {
+    findCssReferences(css).forEach(ref => check(file, ref.url, 'resource'));
+  };
+
+  for (const [path, content] of files) {
+    if (/\.css$/i.test(path)) {
+      checkCss(path, content);
+    } else if (/\.html?$/i.test(path)) {
+      const doc = html.parse(content);
+      for (const rule of extractionRules) {
+        doc.querySelectorAll(rule.selector).forEach(el => {
+          getRuleUrls(rule, el.getAttribute(rule.attribute) || '').forEach(url => check(path, url, 'resource'));
+        });
+      }
+      doc.querySelectorAll(FRAME_SELECTOR).forEach(el => check(path, el.getAttribute('src')!, 'resource'));
+      doc.querySelectorAll(LINK_SELECTOR).forEach(el => check(path, el.getAttribute('href')!, 'link'));
+      doc.querySelectorAll('style').forEach(el => checkCss(path, el.textContent || ''));
+      doc.querySelectorAll('[style]').forEach(el => checkCss(path, el.getAttribute('style') || ''));
+    } else {
+      continue;
+    }
+    report.files++;
+  }
+
+  return report;
+};
@@ -0,0 +1,27 @@
+/**
+ * Crawl manifest helpers. The manifest is written into every archive as manifest.json.
+ */
+import { Asset, ManifestResource } from '../types';
+
+export const TOOL_NAME = 'SiteRipper';
+export const TOOL_VERSION = '1.0.0';
+
+export const MANIFEST_PATH = 'manifest.json';
+
+export const createManifestResource = (url: string, type: Asset['type'] | 'page'): ManifestResource => ({
+  url,
+  path: null,
+  type,
+  mimeType: null,
+  size: null,
+  sha256: null,
+  status: null,
+  servedBy: null,
+  error: null,
+});
+
+/**
+ * "text/html; charset=utf-8" -> "text/html"
+ */
+export const parseMimeType = (contentType: string | null): string | null =>
+  contentType ? contentType.split(';')[0].trim().toLowerCase() || null : null;
@@ -0,0 +1,76 @@
+/**
+ * Extension based MIME type lookup for files inside the archive, and the
+ * reverse lookup used to name files whose type was detected from their content.
+ */
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.json': 'application/json',
+  '.map': 'application/json',
+  '.wasm': 'application/wasm',
+  '.pdf': 'application/pdf',
+  '.webmanifest': 'application/manifest+json',
+  '.xml': 'application/xml',
+  '.txt': 'text/plain',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.bmp': 'image/bmp',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.ttc': 'font/collection',
+  '.eot': 'application/vnd.ms-fontobject',
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.webm': 'video/webm',
+  '.ogv': 'video/ogg',
+  '.mov': 'video/quicktime',
+  '.avi': 'video/x-msvideo',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.wav': 'audio/wav',
+  '.flac': 'audio/flac',
+};
+
+// Where several extensions share a type, the first one listed above is used
+const EXTENSIONS: Record<string, string> = {};
+for (const [ext, mimeType] of Object.entries(MIME_TYPES)) {
+  if (!(mimeType in EXTENSIONS)) EXTENSIONS[mimeType] = ext;
+}
+
+export const getMimeTypeForPath = (path: string): string => {
+  const match = path.toLowerCase().match(/\.[a-z0-9]+$/);
+  return (match && MIME_TYPES[match[0]]) || 'application/octet-stream';
+};
+
+// Formats that carry their own compression: ZIP stores them as they are
+const COMPRESSED_TYPES = new Set([
+  'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif',
+  'font/woff', 'font/woff2',
+  'video/mp4', 'video/webm', 'video/ogg', 'video/quicktime',
+  'audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/ogg', 'audio/flac',
+]);
+
+export const isCompressedMimeType = (mimeType: string): boolean => COMPRESSED_TYPES.has(mimeType);
+
+/**
+ * "image/webp" -> ".webp". Returns '' for types we have no extension for.
+ */
+export const getExtensionForMimeType = (mimeType: string): string => EXTENSIONS[mimeType] ?? '';
@@ -0,0 +1,105 @@
+/**
+ * Helpers for mapping remote URLs onto paths inside the generated archive.
+ */
+import { hashString } from './hash';
+
+export const sanitizeSegment = (segment: string): string => {
+  const clean = segment.replace(/[^a-zA-Z0-9._-]/g, '_').replace(/^\.+$/, '_');
+  return clean || '_';
+};
+
+/**
+ * Appends a short hash of the query string before the extension so that
+ * "app.js?v=1" and "app.js?v=2" end up in different files.
+ */
+const withQueryHash = (file: string, search: string): string =>
+  search ? file.replace(/(\.[a-z0-9]+)?$/i, `_${hashString(search)}$1`) : file;
+
+/**
+ * Returns the path of `toFile` as seen from the directory containing `fromFile`.
+ * Both arguments are archive paths such as "docs/guide/index.html".
+ */
+export const relativePath = (fromFile: string, toFile: string): string => {
+  const fromDirs = fromFile.split('/').slice(0, -1);
+  const toParts = toFile.split('/');
+  let common = 0;
+  while (
+    common < fromDirs.length &&
+    common < toParts.length - 1 &&
+    fromDirs[common] === toParts[common]
+  ) {
+    common++;
+  }
+  const ups = fromDirs.slice(common).map(() => '..');
+  return [...ups, ...toParts.slice(common)].join('/');
+};
+
+/**
+ * Mirrors a page URL onto an archive path:
+ *   https://site/docs/        -> docs/index.html
+ *   https://site/docs/a.html  -> docs/a.html
+ *   https://site/docs/a.php   -> docs/a.html
+ *   https://site/docs/a       -> docs/a/index.html
+ * Pages on hosts other than `rootHost` are nested under a folder named after their host.
+ */
+export const getPagePath = (url: URL, rootHost: string): string => {
+  const segments = url.pathname.split('/').filter(Boolean).map(sanitizeSegment);
+  let file = 'index.html';
+
+  if (!url.pathname.endsWith('/') && segments.length > 0) {
+    const last = segments.pop()!;
+    if (/\.x?html?$/i.test(last)) {
+      file = last;
+    } else if (/\.[a-z0-9]+$/i.test(last)) {
+      file = last.replace(/\.[a-z0-9]+$/i, '.html');
+    } else {
+      segments.push(last);
+    }
+  }
+
+  file = withQueryHash(file, url.search);
+
+  if (url.host !== rootHost) {
+    segments.unshift(sanitizeSegment(url.host));
+  }
+
+  return [...segments, file].join('/');
+};
+
+/**
+ * Mirrors an asset URL under its type folder, keeping host and directories.
+ * The file ends in `ext`, which is appended when the URL names another one:
+ *   https://cdn.site/a/logo.png  -> images/cdn.site/a/logo.png
+ *   https://site/app.js?v=2      -> js/site/app_<hash>.js
+ *   https://site/photo (webp)    -> images/site/photo.webp
+ */
+export const getMirrorPath = (url: URL, folder: string, ext: string): string => {
+  const segments = url.pathname.split('/').filter(Boolean).map(sanitizeSegment);
+  let file = url.pathname.endsWith('/') || segments.length === 0 ? 'index' : segments.pop()!;
+  if (!file.toLowerCase().endsWith(ext.toLowerCase())) file += ext;
+
+  return [folder, sanitizeSegment(url.host), ...segments, withQueryHash(file, url.search)].join('/');
+};
+
+/**
+ * Returns the lowercase extension (with dot) of the last path segment, or '' if it has none.
+ */
+export const getUrlExtension = (url: URL): string => {
+  const match = (url.pathname.split('/').pop() || '').match(/\.[a-z0-9]+$/i);
+  return match ? match[0].toLowerCase() : '';
+};
+
+/**
+ * Resolves a relative reference found in archive file `fromFile` to an archive path.
+ * Returns null if the reference points outside the archive (absolute URLs, data URIs...).
+ */
+export const resolveArchivePath = (fromFile: string, ref: string): string | null => {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(ref) || ref.startsWith('//') || ref.startsWith('#')) return null;
+  try {
+    const resolved = new URL(ref, `http://archive.invalid/${fromFile}`);
+    if (resolved.host !== 'archive.invalid') return null;
+    return decodeURIComponent(resolved.pathname.substring(1));
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,231 @@
+/**
+ * Post-processing pipeline for archived pages. Each transform fixes something
+ * that stops an offline copy from working (SRI hashes of rewritten files, CSP)
+ * or that should not run from an archive (trackers, service workers, forms
+ * posting to other sites). Transforms run on the parsed page before its URLs
+ * are rewritten, so they see the original absolute references.
+ */
+import { IntegrityMode, PostProcessing, PostProcessTransform } from '../types';
+import { SriAlgorithm, sriDigest } from './hash';
+
+export const DEFAULT_POST_PROCESSING: PostProcessing = {
+  transforms: {
+    'integrity': true,
+    'csp': true,
+    'trackers': false,
+    'service-workers': true,
+    'form-actions': false,
+  },
+  integrity: 'recompute',
+};
+
+export const POST_PROCESS_LABELS: Record<PostProcessTransform, string> = {
+  'integrity': 'Fix integrity hashes',
+  'csp': 'Remove CSP meta tags',
+  'trackers': 'Remove analytics & trackers',
+  'service-workers': 'Block service workers',
+  'form-actions': 'Neutralize external forms',
+};
+
+export const INTEGRITY_MODE_LABELS: Record<IntegrityMode, string> = {
+  recompute: 'Recompute for local copies',
+  remove: 'Remove from local copies',
+};
+
+export const mergePostProcessing = (
+  options: Partial<PostProcessing> = {},
+  base: PostProcessing = DEFAULT_POST_PROCESSING
+): PostProcessing => ({
+  ...base,
+  ...options,
+  transforms: { ...base.transforms, ...options.transforms },
+});
+
+/**
+ * What the pipeline needs to know about the crawl. URLs are absolute.
+ */
+export interface PostProcessContext {
+  resolveUrl: (value: string) => string;
+  isLocal: (url: string) => boolean; // Saved in the archive
+  getRewrittenContent: (url: string) => string | undefined; // Set for local files whose content was changed
+  isExternal: (url: string) => boolean;
+  registersServiceWorker: (url: string) => boolean;
+}
+
+export type PostProcessCounts = Record<PostProcessTransform, number>;
+
+interface Transform {
+  run: (doc: Document, context: PostProcessContext, options: PostProcessing) => Promise<number> | number;
+  describe: (count: number, options: PostProcessing) => string;
+}
+
+// Hosts serving analytics, advertising and session-recording scripts; subdomains match too
+const TRACKER_HOSTS = [
+  'google-analytics.com', 'googletagmanager.com', 'doubleclick.net', 'googleadservices.com',
+  'googlesyndication.com', 'connect.facebook.net', 'hotjar.com', 'segment.com', 'segment.io',
+  'mixpanel.com', 'mxpnl.com', 'amplitude.com', 'fullstory.com', 'clarity.ms', 'hs-analytics.net',
+  'hs-scripts.com', 'hsadspixel.net', 'snap.licdn.com', 'ads-twitter.com', 'analytics.twitter.com',
+  'bat.bing.com', 'mc.yandex.ru', 'quantserve.com', 'scorecardresearch.com', 'plausible.io',
+  'heapanalytics.com', 'static.cloudflareinsights.com', 'js-agent.newrelic.com', 'nr-data.net',
+];
+
+// Inline snippets that bootstrap the trackers above
+const TRACKER_SNIPPET = new RegExp([
+  'GoogleAnalyticsObject', '\\bgtag\\s*\\(', '\\bfbq\\s*\\(', '\\b_paq\\.push', '\\bhj\\s*\\(\\s*[\'"]',
+  'mixpanel\\.init', '\\b_hsq\\.push', 'clarity\\s*\\(\\s*[\'"]', ...TRACKER_HOSTS.map(host => host.replace(/\./g, '\\.')),
+].join('|'));
+
+const SERVICE_WORKER_REGISTRATION = /serviceWorker\s*\.\s*register\s*\(/;
+
+const SERVICE_WORKER_STUB =
+  'if (navigator.serviceWorker) navigator.serviceWorker.register = function () { return new Promise(function () {}); };';
+
+export const registersServiceWorker = (js: string): boolean => SERVICE_WORKER_REGISTRATION.test(js);
+
+export const isTrackerUrl = (url: string): boolean => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const host = hostname.toLowerCase();
+    // The Meta pixel endpoint lives on the main facebook.com host
+    if (/(^|\.)facebook\.com$/.test(host) && pathname.startsWith('/tr')) return true;
+    return TRACKER_HOSTS.some(tracker => host === tracker || host.endsWith(`.${tracker}`));
+  } catch {
+    return false;
+  }
+};
+
+const SRI_ALGORITHMS: SriAlgorithm[] = ['sha512', 'sha384', 'sha256'];
+
+// Browsers use the strongest algorithm listed, so the recomputed hash keeps it
+export const pickSriAlgorithm = (integrity: string): SriAlgorithm =>
+  SRI_ALGORITHMS.find(algorithm => integrity.includes(`${algorithm}-`)) ?? 'sha384';
+
+const TRANSFORMS: Record<PostProcessTransform, Transform> = {
+  'integrity': {
+    run: async (doc, context, options) => {
+      let count = 0;
+      for (const el of Array.from(doc.querySelectorAll('script[integrity], link[integrity]'))) {
+        const value = el.getAttribute('src') ?? el.getAttribute('href');
+        if (!value) continue;
+        const url = context.resolveUrl(value);
+        // Remote references still load the exact bytes the hash was made for
+        if (!context.isLocal(url)) continue;
+        // file:// responses cannot satisfy a CORS request, whichever mode is picked
+        el.removeAttribute('crossorigin');
+        if (options.integrity === 'remove') {
+          el.removeAttribute('integrity');
+          count++;
+          continue;
+        }
+        const content = context.getRewrittenContent(url);
+        if (content === undefined) continue;
+        el.setAttribute('integrity', await sriDigest(content, pickSriAlgorithm(el.getAttribute('integrity')!)));
+        count++;
+      }
+      return count;
+    },
+    describe: (count, options) => options.integrity === 'remove'
+      ? `removed ${count} integrity attributes`
+      : `recomputed ${count} integrity hashes`,
+  },
+
+  'csp': {
+    run: (doc) => {
+      let count = 0;
+      for (const meta of Array.from(doc.querySelectorAll('meta[http-equiv]'))) {
+        const name = (meta.getAttribute('http-equiv') || '').trim().toLowerCase();
+        if (name === 'content-security-policy' || name === 'content-security-policy-report-only') {
+          meta.remove();
+          count++;
+        }
+      }
+      return count;
+    },
+    describe: (count) => `removed ${count} Content-Security-Policy meta tags`,
+  },
+
+  'trackers': {
+    run: (doc, context) => {
+      let count = 0;
+      const remove = (el: Element) => {
+        el.remove();
+        count++;
+      };
+      // Inline bootstrap snippets, and the <noscript> pixels that go with them
+      for (const el of Array.from(doc.querySelectorAll('script:not([src]), noscript'))) {
+        // innerHTML, since <noscript> content may be parsed into elements
+        if (TRACKER_SNIPPET.test(el.innerHTML)) remove(el);
+      }
+      for (const el of Array.from(doc.querySelectorAll('script[src], img[src], iframe[src]'))) {
+        if (isTrackerUrl(context.resolveUrl(el.getAttribute('src')!))) remove(el);
+      }
+      for (const el of Array.from(doc.querySelectorAll('link[href]'))) {
+        if (/\b(preconnect|dns-prefetch|preload|prefetch)\b/i.test(el.getAttribute('rel') || '')
+            && isTrackerUrl(context.resolveUrl(el.getAttribute('href')!))) {
+          remove(el);
+        }
+      }
+      return count;
+    },
+    describe: (count) => `removed ${count} tracker scripts and pixels`,
+  },
+
+  'service-workers': {
+    run: (doc, context) => {
+      let registers = false;
+      for (const script of Array.from(doc.querySelectorAll('script'))) {
+        const src = script.getAttribute('src');
+        if (src ? context.registersServiceWorker(context.resolveUrl(src)) : registersServiceWorker(script.textContent || '')) {
+          registers = true;
+        }
+      }
+      const links = Array.from(doc.querySelectorAll('link[rel~="serviceworker"]'));
+      links.forEach(link => link.remove());
+      if (!registers) return links.length > 0 ? 1 : 0;
+
+      // Registration calls stay in place; they just never reach the browser
+      const stub = doc.createElement('script');
+      stub.textContent = SERVICE_WORKER_STUB;
+      const head = doc.querySelector('head') ?? doc.documentElement;
+      head.insertBefore(stub, head.firstChild);
+      return 1;
+    },
+    describe: (count) => `blocked service-worker registration on ${count} pages`,
+  },
+
+  'form-actions': {
+    run: (doc, context) => {
+      let count = 0;
+      const targets: [string, string][] = [['form[action]', 'action'], ['[formaction]', 'formaction']];
+      for (const [selector, attribute] of targets) {
+        for (const el of Array.from(doc.querySelectorAll(selector))) {
+          const value = el.getAttribute(attribute)!;
+          if (!context.isExternal(context.resolveUrl(value))) continue;
+          el.setAttribute(`data-original-${attribute}`, value);
+          el.setAttribute(attribute, '#');
+          count++;
+        }
+      }
+      return count;
+    },
+    describe: (count) => `neutralized ${count} external form actions`,
+  },
+};
+
+/**
+ * Runs the enabled transforms on one page and returns how many changes each made.
+ */
+export const postProcessPage = async (
+  doc: Document,
+  options: PostProcessing,
+  context: PostProcessContext
+): Promise<Partial<PostProcessCounts>> => {
+  const counts: Partial<PostProcessCounts> = {};
+  for (const id of Object.keys(TRANSFORMS) as PostProcessTransform[]) {
+    if (options.transforms[id]) counts[id] = await TRANSFORMS[id].run(doc, context, options);
+  }
+  return counts;
+};
+
+export const describePostProcessing = (id: PostProcessTransform, count: number, options: PostProcessing): string =>
+  TRANSFORMS[id].describe(count, options);
@@ -0,0 +1,161 @@
+/**
+ * Renders archive files in the browser without touching the network: every file
+ * is served from memory as a blob: URL, with the references between files
+ * rewritten to those URLs. Pages also get a Content-Security-Policy allowing only
+ * blob: and data: resources, so anything still pointing at the live site stays unloaded.
+ */
+import { findCssReferences, rewriteCssReferences } from './css';
+import { DEFAULT_EXTRACTION_RULES, getRuleUrls, rewriteRuleValue } from './extraction';
+import { getMimeTypeForPath } from './mime';
+import { resolveArchivePath } from './paths';
+import { ArchiveEntry, ExtractionRule, HtmlAdapter } from '../types';
+
+export type ArchiveFiles = ReadonlyMap<string, ArchiveEntry>;
+
+export interface ArchiveFileInfo {
+  path: string;
+  size: number;
+  mimeType: string;
+}
+
+/**
+ * Set on links to other archived pages; the preview follows them itself, since
+ * relative URLs mean nothing inside a blob: document.
+ */
+export const PREVIEW_LINK_ATTRIBUTE = 'data-archive-path';
+
+const PREVIEW_CSP = "default-src blob: data: 'unsafe-inline'";
+
+export const getFileSize = (content: Blob | string): number =>
+  typeof content === 'string' ? new TextEncoder().encode(content).length : content.size;
+
+/**
+ * Wraps content already in memory as an archive entry.
+ */
+export const toArchiveEntry = (content: Blob | string): ArchiveEntry => ({
+  size: getFileSize(content),
+  read: async () => content,
+});
+
+export const listArchiveFiles = (files: ArchiveFiles): ArchiveFileInfo[] =>
+  Array.from(files, ([path, entry]) => ({ path, size: entry.size, mimeType: getMimeTypeForPath(path) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+/**
+ * The page a preview opens first: index.html, or the only page of a single-file export.
+ */
+export const findEntryPage = (files: ArchiveFiles): string | null =>
+  files.has('index.html') ? 'index.html' : Array.from(files.keys()).find(path => /\.html?$/i.test(path)) ?? null;
+
+const splitRef = (ref: string): [string, string] => {
+  const index = ref.indexOf('#');
+  return index === -1 ? [ref, ''] : [ref.substring(0, index), ref.substring(index)];
+};
+
+export class ArchivePreview {
+  private urls = new Map<string, string>(); // Archive path -> blob: URL
+
+  constructor(
+    private files: ArchiveFiles,
+    private html: HtmlAdapter,
+    private extractionRules: ExtractionRule[] = DEFAULT_EXTRACTION_RULES
+  ) {}
+
+  /**
+   * Returns a blob: URL for an archive file, or null if the archive does not have it.
+   */
+  getUrl(path: string): Promise<string | null> {
+    return this.resolve(path, []);
+  }
+
+  /**
+   * Releases every blob: URL handed out so far.
+   */
+  dispose() {
+    this.urls.forEach(url => URL.revokeObjectURL(url));
+    this.urls.clear();
+  }
+
+  // `stack` holds the files being built, so circular references resolve to null instead of looping
+  private async resolve(path: string, stack: string[]): Promise<string | null> {
+    const cached = this.urls.get(path);
+    if (cached) return cached;
+
+    const entry = this.files.get(path);
+    if (entry === undefined || stack.includes(path)) return null;
+
+    const mimeType = getMimeTypeForPath(path);
+    const content = await entry.read();
+    const text = () => typeof content === 'string' ? content : content.text();
+    const body = mimeType === 'text/html' ? await this.renderPage(await text(), path, [...stack, path])
+      : mimeType === 'text/css' ? await this.rewriteCss(await text(), path, [...stack, path])
+      : content;
+
+    // Text files are held as JavaScript strings, which Blob encodes as UTF-8
+    const type = mimeType.startsWith('text/') ? `${mimeType};charset=utf-8` : mimeType;
+    const url = URL.createObjectURL(new Blob([body], { type }));
+    this.urls.set(path, url);
+    return url;
+  }
+
+  /**
+   * Resolves a reference found in `fromPath`, keeping its #fragment.
+   */
+  private async resolveRef(fromPath: string, ref: string, stack: string[]): Promise<string | null> {
+    const [file, fragment] = splitRef(ref.trim());
+    const target = resolveArchivePath(fromPath, file);
+    const url = target ? await this.resolve(target, stack) : null;
+    return url ? url + fragment : null;
+  }
+
+  private async rewriteCss(css: string, cssPath: string, stack: string[]): Promise<string> {
+    const refs = findCssReferences(css);
+    const urls = new Map<string, string | null>();
+    for (const ref of refs) {
+      if (!urls.has(ref.url)) urls.set(ref.url, await this.resolveRef(cssPath, ref.url, stack));
+    }
+    return rewriteCssReferences(css, refs, (ref) => urls.get(ref.url) ?? null);
+  }
+
+  private async renderPage(html: string, pagePath: string, stack: string[]): Promise<string> {
+    const doc = this.html.parse(html);
+
+    for (const rule of this.extractionRules) {
+      for (const el of Array.from(doc.querySelectorAll(rule.selector))) {
+        const value = el.getAttribute(rule.attribute);
+        if (!value) continue;
+        const urls = new Map<string, string | null>();
+        for (const ref of getRuleUrls(rule, value)) {
+          urls.set(ref, await this.resolveRef(pagePath, ref, stack));
+        }
+        el.setAttribute(rule.attribute, rewriteRuleValue(rule, value, (ref) => urls.get(ref) ?? null));
+      }
+    }
+    for (const el of Array.from(doc.querySelectorAll('style'))) {
+      el.textContent = await this.rewriteCss(el.textContent || '', pagePath, stack);
+    }
+    for (const el of Array.from(doc.querySelectorAll('[style]'))) {
+      el.setAttribute('style', await this.rewriteCss(el.getAttribute('style') || '', pagePath, stack));
+    }
+    for (const el of Array.from(doc.querySelectorAll('iframe[src], frame[src]'))) {
+      const url = await this.resolveRef(pagePath, el.getAttribute('src')!, stack);
+      if (url) el.setAttribute('src', url);
+    }
+    for (const el of Array.from(doc.querySelectorAll('a[href], area[href]'))) {
+      const target = resolveArchivePath(pagePath, splitRef(el.getAttribute('href')!)[0]);
+      if (target && this.files.has(target)) el.setAttribute(PREVIEW_LINK_ATTRIBUTE, target);
+    }
+
+    // A refresh would navigate away from the archive
+    doc.querySelectorAll('meta[http-equiv]').forEach(meta => {
+      if ((meta.getAttribute('http-equiv') || '').trim().toLowerCase() === 'refresh') meta.remove();
+    });
+    const csp = doc.createElement('meta');
+    csp.setAttribute('http-equiv', 'Content-Security-Policy');
+    csp.setAttribute('content', PREVIEW_CSP);
+    const head = doc.querySelector('head') ?? doc.documentElement;
+    head.insertBefore(csp, head.firstChild);
+
+    return this.html.serialize(doc);
+  }
+}
@@ -1,41 +1,326 @@
 /**
- * Handles fetching resources through a CORS proxy.
- * Public proxies are used for demonstration.
- * In a production environment, this should point to a self-hosted server.
+ * Handles fetching resources through a configurable transport.
+ *
+ * - direct:       plain fetch(), only works for CORS-enabled or same-origin sites
+ * - custom-proxy: a self-hosted proxy addressed through a URL template
+ * - local-server: the bundled Node proxy (`npm run proxy`, see server/proxy-server.mjs)
+ * - public:       third-party CORS proxies, for demonstration only
  */
+import { TransportConfig, TransportKind } from '../types';
+import { HostRateLimiter, ProxyHealth, backoffDelay, parseRetryAfter, sleep } from './scheduler';
 
-// List of public proxies to try in order
-const PROXIES = [
+export const DEFAULT_TRANSPORT: TransportConfig = {
+    kind: 'public',
+    proxyTemplate: 'https://proxy.example.internal/fetch?url={url}',
+    localServerUrl: 'http://localhost:8787',
+};
+
+export const TRANSPORT_LABELS: Record<TransportKind, string> = {
+    'public': 'Public CORS proxies',
+    'direct': 'Direct fetch',
+    'custom-proxy': 'Self-hosted proxy',
+    'local-server': 'Local proxy server',
+};
+
+export interface FetchOptions {
+    transport?: TransportConfig;
+    signal?: AbortSignal; // Aborting stops the current request and skips remaining candidates
+    headers?: Record<string, string>; // e.g. If-None-Match for conditional requests
+    credentials?: Record<string, string>; // Auth profile headers, never sent to public proxies
+    timeout?: number; // ms per attempt until response headers arrive, 0 = no limit
+    retries?: number; // Extra rounds over all candidates after transient failures
+    rateLimiter?: HostRateLimiter; // Shared per crawl so every request to a host is spaced out
+    onRetry?: (retry: RetryInfo) => void;
+    onLog?: (message: string) => void; // Failures of single candidates, before the next one is tried
+}
+
+export interface RetryInfo {
+    url: string;
+    attempt: number; // 1 for the first retry
+    delay: number; // ms until the retry starts
+    status: number | null; // Last HTTP status, null for network errors and timeouts
+}
+
+/**
+ * A redirect response that was followed on the way to the final response.
+ */
+export interface RedirectHop {
+    url: string;
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+}
+
+export interface FetchResult {
+    response: Response;
+    servedBy: string; // Name of the transport or proxy that answered, e.g. "direct" or "corsproxy.io"
+    url: string; // The URL that answered, after the redirects
+    redirects: RedirectHop[]; // Oldest first; empty where the platform follows redirects out of sight (browsers)
+}
+
+/**
+ * Raised when no candidate could fetch the URL. `status` is the last HTTP
+ * status seen, if any candidate got as far as a response, and `response` that
+ * response with its body unread.
+ */
+export class FetchError extends Error {
+    redirects: RedirectHop[] = []; // Followed before the request that failed
+    url: string | null = null; // The request that failed, once redirects are followed
+    fromOrigin = false; // Whether `status` is the origin's own answer, not a proxy's
+
+    constructor(message: string, public status: number | null = null, public response: Response | null = null) {
+        super(message);
+        this.name = 'FetchError';
+    }
+}
+
+interface ProxyCandidate {
+    name: string;
+    url: string;
+}
+
+interface PublicProxy {
+    name: string;
+    binarySafe: boolean;
+    build: (url: string) => string;
+}
+
+// The local server forwards "X-SiteRipper-<name>" as "<name>", which lets browsers pass Cookie and User-Agent
+const FORWARDED_HEADER_PREFIX = 'X-SiteRipper-';
+
+// Statuses worth another attempt after a pause; anything else is treated as final
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+// Never let a server's Retry-After stall a crawl for longer than this
+const MAX_RETRY_AFTER = 60_000;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const MAX_REDIRECTS = 20;
+
+// The local server renames Location, or the browser would follow the redirect itself
+const PROXIED_LOCATION_HEADER = 'X-SiteRipper-Location';
+
+// Set by the local server on errors of its own, which say nothing about the origin
+const PROXY_ERROR_HEADER = 'X-SiteRipper-Proxy-Error';
+
+/**
+ * Outcomes of recent requests per transport, shared by all crawls in this session.
+ * Public proxies are tried healthiest first.
+ */
+export const proxyHealth = new ProxyHealth();
+
+// List of public proxies, tried in order of health
+const PROXIES: PublicProxy[] = [
     // AllOrigins is reliable for text, sometimes slow for binary
-    (url: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
+    { name: 'allorigins', binarySafe: false, build: (url) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}` },
     // CorsProxy.io is fast but sometimes has strict rate limits
-    (url: string) => `https://corsproxy.io/?${encodeURIComponent(url)}`,
+    { name: 'corsproxy.io', binarySafe: true, build: (url) => `https://corsproxy.io/?${encodeURIComponent(url)}` },
     // CodeTabs is good for binary
-    (url: string) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}`
+    { name: 'codetabs', binarySafe: true, build: (url) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}` },
 ];
 
-export const fetchWithProxy = async (url: string, isBinary: boolean = false): Promise<Response> => {
+/**
+ * Expands a proxy URL template. `{url}` is replaced with the encoded target URL;
+ * templates without a placeholder get the encoded URL appended.
+ */
+export const applyProxyTemplate = (template: string, url: string): string => {
+    const encoded = encodeURIComponent(url);
+    return template.includes('{url}') ? template.split('{url}').join(encoded) : `${template}${encoded}`;
+};
+
+const getCandidates = (url: string, isBinary: boolean, transport: TransportConfig): ProxyCandidate[] => {
+    switch (transport.kind) {
+        case 'direct':
+            return [{ name: 'direct', url }];
+        case 'custom-proxy':
+            return [{ name: 'custom-proxy', url: applyProxyTemplate(transport.proxyTemplate, url) }];
+        case 'local-server':
+            return [{
+                name: 'local-server',
+                url: `${transport.localServerUrl.replace(/\/+$/, '')}/fetch?url=${encodeURIComponent(url)}`,
+            }];
+        case 'public': {
+            // Binary downloads try the proxies that pass bytes through untouched first
+            const ordered = isBinary
+                ? [...proxyHealth.rank(PROXIES.filter(p => p.binarySafe)), ...proxyHealth.rank(PROXIES.filter(p => !p.binarySafe))]
+                : proxyHealth.rank(PROXIES);
+            return ordered.map(p => ({ name: p.name, url: p.build(url) }));
+        }
+    }
+};
+
+/**
+ * Adds credential headers the way the transport can carry them to the origin.
+ */
+const withCredentials = (
+    headers: Record<string, string> | undefined,
+    credentials: Record<string, string> | undefined,
+    transport: TransportConfig
+): Record<string, string> | undefined => {
+    if (!credentials || transport.kind === 'public') return headers;
+    const prefix = transport.kind === 'local-server' ? FORWARDED_HEADER_PREFIX : '';
+    const forwarded = Object.fromEntries(Object.entries(credentials).map(([name, value]) => [`${prefix}${name}`, value]));
+    return { ...headers, ...forwarded };
+};
+
+const fetchWithTimeout = async (url: string, init: RequestInit, timeout: number): Promise<Response> => {
+    if (!timeout) return fetch(url, init);
+    const timeoutController = new AbortController();
+    // The caller's signal must keep working after the headers arrive, so cancelling still stops body reads
+    let signal = timeoutController.signal;
+    if (init.signal && 'any' in AbortSignal) {
+        signal = AbortSignal.any([init.signal, timeoutController.signal]);
+    } else if (init.signal) {
+        init.signal.addEventListener('abort', () => timeoutController.abort(init.signal!.reason), { once: true });
+    }
+    const timer = setTimeout(() => timeoutController.abort(new FetchError(`Timed out after ${timeout} ms`)), timeout);
+    try {
+        return await fetch(url, { ...init, signal });
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+const getLocation = (response: Response): string | null =>
+    REDIRECT_STATUSES.includes(response.status)
+        ? response.headers.get('location') ?? response.headers.get(PROXIED_LOCATION_HEADER)
+        : null;
+
+/**
+ * Whether a status came from the origin. Public proxies answer with their own
+ * errors as often as they pass the origin's on, so only direct and self-hosted
+ * transports count.
+ */
+const isOriginResponse = (response: Response, transport: TransportConfig): boolean =>
+    transport.kind !== 'public' && !response.headers.has(PROXY_ERROR_HEADER);
+
+const toHeaderRecord = (headers: Headers): Record<string, string> => {
+    const record: Record<string, string> = {};
+    headers.forEach((value, name) => { record[name] = value; });
+    return record;
+};
+
+/**
+ * Fetches `url` through the transport's candidates, healthiest first, following
+ * redirects hop by hop so each one can be archived. Credentials and conditional
+ * headers are only sent to the origin they were meant for. Failures carry the
+ * hops followed before them.
+ */
+export const fetchWithProxy = async (url: string, isBinary: boolean = false, options: FetchOptions = {}): Promise<FetchResult> => {
+    const origin = new URL(url).origin;
+    const redirects: RedirectHop[] = [];
+    let target = url;
+    try {
+        for (;;) {
+            const sameRequest = redirects.length === 0;
+            const sameOrigin = new URL(target).origin === origin;
+            const result = await fetchFromCandidates(target, isBinary, {
+                ...options,
+                headers: sameRequest ? options.headers : undefined,
+                credentials: sameOrigin ? options.credentials : undefined,
+            });
+            const { response } = result;
+            const location = getLocation(response);
+            if (!location) return { ...result, url: target, redirects };
+
+            await response.body?.cancel().catch(() => {});
+            if (redirects.length >= MAX_REDIRECTS) {
+                throw new FetchError(`More than ${MAX_REDIRECTS} redirects fetching ${url}`, response.status);
+            }
+            // Archived as the origin sent it, with the Location the local server renamed
+            const hopHeaders = toHeaderRecord(response.headers);
+            delete hopHeaders[PROXIED_LOCATION_HEADER.toLowerCase()];
+            hopHeaders['location'] = location;
+            redirects.push({ url: target, status: response.status, statusText: response.statusText, headers: hopHeaders });
+            target = new URL(location, target).href;
+        }
+    } catch (err) {
+        if (err instanceof FetchError) {
+            err.redirects = redirects;
+            err.url = target;
+        }
+        throw err;
+    }
+};
+
+/**
+ * Makes one request through the transport's candidates, healthiest first. When every
+ * candidate fails transiently (network error, timeout, 429, 5xx) the whole round
+ * is retried after an exponential backoff, or after Retry-After if the server sent one.
+ * Redirects come back as they are, except where the browser hides them.
+ */
+const fetchFromCandidates = async (
+    url: string,
+    isBinary: boolean,
+    { transport = DEFAULT_TRANSPORT, signal, headers, credentials, timeout = 0, retries = 0, rateLimiter, onRetry, onLog }: FetchOptions
+): Promise<Omit<FetchResult, 'url' | 'redirects'>> => {
+    const host = new URL(url).host;
+    const requestHeaders = withCredentials(headers, credentials, transport);
     let lastError: any;
+    let lastStatus: number | null = null;
+    let lastResponse: Response | null = null;
+    let lastFromOrigin = false;
 
-    for (const proxyGen of PROXIES) {
-        try {
-            const proxyUrl = proxyGen(url);
-            const response = await fetch(proxyUrl);
-            
-            if (!response.ok) {
-                throw new Error(`Status ${response.status}`);
+    for (let attempt = 0; ; attempt++) {
+        let retryable = false;
+        let retryAfter: number | null = null;
+
+        for (const candidate of getCandidates(url, isBinary, transport)) {
+            await rateLimiter?.acquire(host, signal);
+            const startedAt = Date.now();
+
+            let response: Response;
+            try {
+                response = await fetchWithTimeout(candidate.url, { signal, headers: requestHeaders, redirect: 'manual' }, timeout);
+                // Browsers never expose a redirect's status or Location, so let them follow it after all
+                if (response.type === 'opaqueredirect') {
+                    response = await fetchWithTimeout(candidate.url, { signal, headers: requestHeaders }, timeout);
+                }
+            } catch (err) {
+                if (signal?.aborted) throw err;
+                onLog?.(`Transport ${candidate.name} failed for ${url}: ${(err as any)?.message ?? err}`);
+                proxyHealth.record(candidate.name, false, Date.now() - startedAt);
+                lastError = err;
+                retryable = true;
+                continue;
+            }
+
+            // Errors from the origin (404 etc.) still mean the transport itself did its job
+            proxyHealth.record(candidate.name, response.status < 500 && response.status !== 429, Date.now() - startedAt);
+
+            // 304 only comes back for conditional requests, where it is the answer we want
+            if (response.ok || response.status === 304 || getLocation(response)) {
+                await lastResponse?.body?.cancel().catch(() => {});
+                return { response, servedBy: candidate.name };
             }
 
-            // If we just need the response, return it.
-            // Note: We might want to clone it if we were doing more checks, 
-            // but we'll return the raw response to let the caller handle .text() or .blob()
-            return response;
-        } catch (err) {
-            console.warn(`Proxy failed for ${url}:`, err);
-            lastError = err;
-            // Continue to next proxy
+            onLog?.(`Transport ${candidate.name} got status ${response.status} for ${url}`);
+            await lastResponse?.body?.cancel().catch(() => {});
+            lastResponse = response;
+            lastError = new Error(`Status ${response.status}`);
+            lastStatus = response.status;
+            lastFromOrigin = isOriginResponse(response, transport);
+            if (RETRYABLE_STATUSES.includes(response.status)) retryable = true;
+            if (response.status === 429 || response.status === 503) {
+                const delay = parseRetryAfter(response.headers.get('retry-after'));
+                if (delay !== null) retryAfter = Math.min(MAX_RETRY_AFTER, Math.max(retryAfter ?? 0, delay));
+            }
+            // Continue to next candidate
         }
+
+        if (!retryable || attempt >= retries) break;
+
+        const delay = retryAfter ?? backoffDelay(attempt);
+        if (retryAfter !== null) rateLimiter?.defer(host, retryAfter);
+        onRetry?.({ url, attempt: attempt + 1, delay, status: lastStatus });
+        await sleep(delay, signal);
     }
 
-    throw new Error(`All proxies failed to fetch ${url}. Last error: ${lastError}`);
+    const error = new FetchError(
+        `All transports failed to fetch ${url} (${TRANSPORT_LABELS[transport.kind]}). Last error: ${lastError}`,
+        lastStatus,
+        lastResponse
+    );
+    error.fromOrigin = lastFromOrigin;
+    throw error;
 };
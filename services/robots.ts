@@ -0,0 +1,128 @@
+/**
+ * robots.txt parsing following RFC 9309: the most specific matching user-agent
+ * group applies, the longest matching rule wins and Allow beats Disallow on ties.
+ */
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+export interface RobotsPolicy {
+  agent: string; // Group that applies, "*" for the catch-all group, "" when none matched
+  isAllowed: (url: string) => boolean;
+  crawlDelay: number | null; // Seconds, from the non-standard but common Crawl-delay directive
+  sitemaps: string[];
+}
+
+const compileRule = (pattern: string): RegExp => {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+};
+
+// Percent-encoding differences ("/a%2fb" vs "/a/b") should not decide a match
+const normalizePath = (path: string): string => {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+};
+
+export const ALLOW_ALL: RobotsPolicy = {
+  agent: '',
+  isAllowed: () => true,
+  crawlDelay: null,
+  sitemaps: [],
+};
+
+/** RFC 9309 §2.3.1.4: a robots.txt that is unreachable because of a server error disallows everything */
+export const DISALLOW_ALL: RobotsPolicy = {
+  ...ALLOW_ALL,
+  isAllowed: () => false,
+};
+
+/**
+ * Parses robots.txt and returns the rules that apply to `userAgent`.
+ */
+export const parseRobots = (text: string, userAgent: string): RobotsPolicy => {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line.match(/^([a-z-]+)\s*:\s*(.*)$/i);
+    if (!match) continue;
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+    collectingAgents = false;
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (current && (field === 'allow' || field === 'disallow')) {
+      // An empty Disallow allows everything, so it adds no rule
+      if (value) current.rules.push({ allow: field === 'allow', pattern: value, regex: compileRule(normalizePath(value)) });
+    } else if (current && field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!Number.isNaN(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  // The longest agent token contained in our user-agent wins; "*" is the fallback
+  const ua = userAgent.toLowerCase();
+  let best: { group: RobotsGroup; agent: string } | null = null;
+  for (const group of groups) {
+    for (const agent of group.agents) {
+      const matches = agent === '*' || (agent !== '' && ua.includes(agent));
+      if (!matches) continue;
+      const specificity = agent === '*' ? 0 : agent.length;
+      const bestSpecificity = !best ? -1 : best.agent === '*' ? 0 : best.agent.length;
+      if (specificity > bestSpecificity) best = { group, agent };
+    }
+  }
+  if (!best) return { ...ALLOW_ALL, sitemaps };
+
+  const { rules, crawlDelay } = best.group;
+  return {
+    agent: best.agent,
+    crawlDelay,
+    sitemaps,
+    isAllowed: (url: string) => {
+      const u = new URL(url);
+      const path = normalizePath(u.pathname + u.search);
+      let verdict: RobotsRule | null = null;
+      for (const rule of rules) {
+        if (!rule.regex.test(path)) continue;
+        if (!verdict || rule.pattern.length > verdict.pattern.length
+            || (rule.pattern.length === verdict.pattern.length && rule.allow)) {
+          verdict = rule;
+        }
+      }
+      return verdict ? verdict.allow : true;
+    },
+  };
+};
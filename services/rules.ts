@@ -0,0 +1,140 @@
+/**
+ * Crawl rules: URL include/exclude patterns, asset type toggles, size caps and
+ * the third-party policy. The crawler consults a RuleSet before fetching anything.
+ */
+import { Asset, CrawlRules, ThirdPartyPolicy } from '../types';
+
+export const DEFAULT_CRAWL_RULES: CrawlRules = {
+  include: [],
+  exclude: [],
+  assetTypes: { image: true, css: true, js: true, font: true, video: true, audio: true, other: true },
+  maxAssetSize: 0,
+  maxTotalSize: 0,
+  thirdParty: 'download',
+};
+
+export const ASSET_TYPE_LABELS: Record<Asset['type'], string> = {
+  image: 'Images',
+  css: 'Stylesheets',
+  js: 'Scripts',
+  font: 'Fonts',
+  video: 'Video',
+  audio: 'Audio',
+  other: 'Other files',
+};
+
+export const THIRD_PARTY_POLICY_LABELS: Record<ThirdPartyPolicy, string> = {
+  'download': 'Download',
+  'keep-remote': 'Keep remote link',
+  'drop': 'Drop reference',
+};
+
+/**
+ * Fills in rules missing from older saved settings or partial CLI/API input.
+ */
+export const mergeCrawlRules = (rules: Partial<CrawlRules> = {}, base: CrawlRules = DEFAULT_CRAWL_RULES): CrawlRules => ({
+  ...base,
+  ...rules,
+  assetTypes: { ...base.assetTypes, ...rules.assetTypes },
+});
+
+/**
+ * Compiles a URL pattern. "/.../flags" is a regular expression; anything else is a
+ * glob matched against the whole URL, where "**" matches anything, "*" anything
+ * except "/" and "?" a single character other than "/".
+ */
+export const compileUrlPattern = (pattern: string): RegExp => {
+  const trimmed = pattern.trim();
+  const regex = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    if (regex) return new RegExp(regex[1], regex[2]);
+  } catch (e: any) {
+    throw new Error(`Invalid URL pattern "${trimmed}": ${e.message}`);
+  }
+
+  let source = '';
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (char === '*' && trimmed[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+};
+
+const stripWww = (hostname: string) => hostname.replace(/^www\./, '');
+
+export class RuleSet {
+  private include: RegExp[];
+  private exclude: RegExp[];
+
+  /**
+   * @param siteHost hostname of the entry page; other hosts count as third-party
+   *                 unless they share its domain or are listed in `extraHosts`
+   */
+  constructor(private rules: CrawlRules, private siteHost: string, private extraHosts: string[] = []) {
+    this.include = rules.include.filter(p => p.trim()).map(compileUrlPattern);
+    this.exclude = rules.exclude.filter(p => p.trim()).map(compileUrlPattern);
+  }
+
+  get thirdPartyPolicy(): ThirdPartyPolicy {
+    return this.rules.thirdParty;
+  }
+
+  get maxAssetSize(): number {
+    return this.rules.maxAssetSize;
+  }
+
+  get maxTotalSize(): number {
+    return this.rules.maxTotalSize;
+  }
+
+  /**
+   * Pattern check shared by pages and assets. Returns why the URL is filtered, or null.
+   */
+  getUrlSkipReason(url: string): string | null {
+    if (this.exclude.some(re => re.test(url))) return 'Matches an exclude rule';
+    if (this.include.length > 0 && !this.include.some(re => re.test(url))) return 'Matches no include rule';
+    return null;
+  }
+
+  getAssetSkipReason(url: string, type: Asset['type']): string | null {
+    if (this.rules.thirdParty !== 'download' && this.isThirdParty(url)) {
+      return this.rules.thirdParty === 'drop' ? 'Third-party resource (dropped)' : 'Third-party resource (kept remote)';
+    }
+    if (this.rules.assetTypes[type] === false) return `${ASSET_TYPE_LABELS[type]} are disabled`;
+    return this.getUrlSkipReason(url);
+  }
+
+  /**
+   * True for third-party URLs whose references should be removed from the archive.
+   */
+  shouldDrop(url: string): boolean {
+    return this.rules.thirdParty === 'drop' && this.isThirdParty(url);
+  }
+
+  /**
+   * Subdomains of the entry site (cdn.example.com for www.example.com) count as first-party.
+   */
+  isThirdParty(url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+    const hostname = parsed.hostname.toLowerCase();
+    if (this.extraHosts.includes(hostname)) return false;
+    const site = stripWww(this.siteHost.toLowerCase());
+    const host = stripWww(hostname);
+    return !(host === site || host.endsWith(`.${site}`) || site.endsWith(`.${host}`));
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Request scheduling primitives shared by the fetch layer and the crawler:
+ * abortable sleeps, backoff delays, per-host rate limiting, proxy health
+ * tracking and a continuous worker pool.
+ */
+
+/**
+ * Resolves after `ms`, or rejects with the signal's reason as soon as it aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, base * 2^attempt],
+ * capped at `max`. Spreading retries out keeps parallel workers from
+ * hammering a recovering server in lockstep.
+ */
+export const backoffDelay = (attempt: number, base = 500, max = 30_000): number =>
+  Math.round(Math.random() * Math.min(max, base * 2 ** attempt));
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | null => {
+  if (!value) return null;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Spaces out requests to the same host. With `requestsPerSecond` at 0 only
+ * explicit back-off from defer() (e.g. Retry-After) is enforced.
+ */
+export class HostRateLimiter {
+  private nextSlot = new Map<string, number>();
+  private minIntervals = new Map<string, number>();
+
+  constructor(private requestsPerSecond: number) {}
+
+  /** Waits until the host may receive another request and reserves that slot. */
+  async acquire(host: string, signal?: AbortSignal): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(host) ?? 0);
+    const interval = Math.max(
+      this.requestsPerSecond > 0 ? 1000 / this.requestsPerSecond : 0,
+      this.minIntervals.get(host) ?? 0
+    );
+    this.nextSlot.set(host, slot + interval);
+    if (slot > now) await sleep(slot - now, signal);
+  }
+
+  /** Enforces a per-host gap between requests, e.g. robots.txt Crawl-delay, on top of the global rate. */
+  setMinInterval(host: string, ms: number) {
+    this.minIntervals.set(host, ms);
+  }
+
+  /** Holds back every request to the host for at least `ms`. */
+  defer(host: string, ms: number) {
+    const until = Date.now() + ms;
+    if (until > (this.nextSlot.get(host) ?? 0)) this.nextSlot.set(host, until);
+  }
+}
+
+export interface ProxyHealthSummary {
+  name: string;
+  attempts: number;
+  successRate: number; // 0..1 over the recent window
+  averageLatency: number | null; // ms, successful requests only
+}
+
+interface HealthSample {
+  ok: boolean;
+  latency: number;
+}
+
+const HEALTH_WINDOW = 20;
+
+/**
+ * Keeps a sliding window of outcomes per proxy so the healthiest ones are tried first.
+ */
+export class ProxyHealth {
+  private samples = new Map<string, HealthSample[]>();
+
+  record(name: string, ok: boolean, latency: number) {
+    const window = this.samples.get(name) ?? [];
+    window.push({ ok, latency });
+    if (window.length > HEALTH_WINDOW) window.shift();
+    this.samples.set(name, window);
+  }
+
+  summary(name: string): ProxyHealthSummary {
+    const window = this.samples.get(name) ?? [];
+    const successes = window.filter(s => s.ok);
+    return {
+      name,
+      attempts: window.length,
+      // Laplace smoothing: an unknown proxy starts at 50% rather than 0% or 100%
+      successRate: (successes.length + 1) / (window.length + 2),
+      averageLatency: successes.length
+        ? successes.reduce((sum, s) => sum + s.latency, 0) / successes.length
+        : null,
+    };
+  }
+
+  /**
+   * Orders candidates by success rate, then latency. The sort is stable, so
+   * proxies without history keep their configured order.
+   */
+  rank<T extends { name: string }>(candidates: T[]): T[] {
+    const score = (name: string) => {
+      const { successRate, averageLatency } = this.summary(name);
+      // Each second of latency costs as much as 10 points of success rate
+      return successRate - (averageLatency ?? 0) / 10_000;
+    };
+    return [...candidates].sort((a, b) => score(b.name) - score(a.name));
+  }
+
+  report(): ProxyHealthSummary[] {
+    return Array.from(this.samples.keys()).map(name => this.summary(name));
+  }
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` in flight. Unlike fixed
+ * batches, a worker picks up the next item as soon as its current one finishes.
+ */
+export const runPool = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<unknown>
+): Promise<void> => {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+};
@@ -0,0 +1,63 @@
+/**
+ * Persists UI settings in localStorage so they survive page reloads. Auth
+ * profile secrets are never part of the settings: they stay in memory for the
+ * session unless the profile opts in to being remembered, and then go under a
+ * key of their own.
+ */
+import { CrawlConfig } from '../types';
+import { AuthSecrets, createAuthProfile, mergeAuthSecrets, splitAuthSecrets } from './auth';
+import { DEFAULT_CRAWL_CONFIG } from './crawler';
+import { mergeCrawlRules } from './rules';
+import { mergePostProcessing } from './postprocess';
+
+const CONFIG_KEY = 'siteripper.config';
+const SECRETS_KEY = 'siteripper.auth-secrets'; // Profile id -> secrets, for remembered profiles only
+
+const loadAuthSecrets = (): Record<string, AuthSecrets> => {
+  try {
+    return JSON.parse(localStorage.getItem(SECRETS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadCrawlConfig = (fallback: CrawlConfig = DEFAULT_CRAWL_CONFIG): CrawlConfig => {
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    if (!raw) return fallback;
+    const stored = JSON.parse(raw) as Partial<CrawlConfig>;
+    const secrets = loadAuthSecrets();
+    // Merge over the defaults so settings added in newer versions get sensible values
+    return {
+      ...fallback,
+      ...stored,
+      authProfiles: (stored.authProfiles ?? fallback.authProfiles)
+        .map(profile => mergeAuthSecrets(createAuthProfile(profile), secrets[profile.id])),
+      transport: { ...fallback.transport, ...stored.transport },
+      rules: mergeCrawlRules(stored.rules, fallback.rules),
+      postProcessing: mergePostProcessing(stored.postProcessing, fallback.postProcessing),
+    };
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveCrawlConfig = (config: CrawlConfig) => {
+  const authProfiles = [];
+  const secrets: Record<string, AuthSecrets> = {};
+  for (const profile of config.authProfiles) {
+    const [settings, profileSecrets] = splitAuthSecrets(profile);
+    authProfiles.push(settings);
+    if (profile.remember) secrets[profile.id] = profileSecrets;
+  }
+  try {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify({ ...config, authProfiles }));
+    if (Object.keys(secrets).length > 0) {
+      localStorage.setItem(SECRETS_KEY, JSON.stringify(secrets));
+    } else {
+      localStorage.removeItem(SECRETS_KEY);
+    }
+  } catch {
+    // Storage may be full or disabled (private mode); settings just won't persist
+  }
+};
@@ -0,0 +1,69 @@
+/**
+ * sitemap.xml parsing. Handles <urlset> and <sitemapindex> documents, plain or
+ * gzip-compressed, without needing an XML DOM so it runs the same in Node.
+ */
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod: string | null;
+}
+
+export interface ParsedSitemap {
+  kind: 'urlset' | 'sitemapindex';
+  entries: SitemapEntry[];
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXmlText = (text: string): string =>
+  text
+    .replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return Number.isNaN(code) ? entity : String.fromCodePoint(code);
+      }
+      return XML_ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .trim();
+
+const readTag = (xml: string, tag: string): string | null => {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'i'));
+  return match ? decodeXmlText(match[1]) : null;
+};
+
+export const parseSitemap = (xml: string): ParsedSitemap => {
+  const kind = /<(?:[\w-]+:)?sitemapindex\b/i.test(xml) ? 'sitemapindex' : 'urlset';
+  const element = kind === 'sitemapindex' ? 'sitemap' : 'url';
+  const entries: SitemapEntry[] = [];
+
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${element}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${element}>`, 'gi');
+  for (const match of xml.matchAll(pattern)) {
+    const loc = readTag(match[1], 'loc');
+    if (loc) entries.push({ loc, lastmod: readTag(match[1], 'lastmod') });
+  }
+  return { kind, entries };
+};
+
+/**
+ * Returns the sitemap as text, gunzipping it when the bytes start with the gzip
+ * magic number. Servers that send .gz files with Content-Encoding: gzip have
+ * already been decoded by fetch(), so the extension alone is not a reliable hint.
+ */
+export const readSitemapBody = async (body: Blob): Promise<string> => {
+  const magic = new Uint8Array(await body.slice(0, 2).arrayBuffer());
+  if (magic[0] !== 0x1f || magic[1] !== 0x8b) return body.text();
+  const stream = body.stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+};
+
+/**
+ * True if the entry was modified on or after `since` (an ISO date). Entries
+ * without a usable lastmod are kept, since we cannot tell they are stale.
+ */
+export const isModifiedSince = (entry: SitemapEntry, since: string): boolean => {
+  if (!since || !entry.lastmod) return true;
+  const modified = Date.parse(entry.lastmod);
+  const threshold = Date.parse(since);
+  return Number.isNaN(modified) || Number.isNaN(threshold) || modified >= threshold;
+};
@@ -0,0 +1,165 @@
+/**
+ * Content type detection for downloaded assets. Servers often send a generic
+ * or wrong Content-Type and URLs often have no extension, so the first bytes
+ * of the body decide where they can: binary formats by their magic numbers,
+ * SVG, source maps and JSON by a look at their text.
+ */
+import { Asset } from '../types';
+import { getExtensionForMimeType, getMimeTypeForPath } from './mime';
+import { parseMimeType } from './manifest';
+
+export interface DetectedContent {
+  type: Asset['type'];
+  mimeType: string;
+  extension: string; // '' when the type has no known extension
+}
+
+const SNIFF_LENGTH = 1024;
+
+// Larger bodies are not parsed just to confirm they are JSON
+const MAX_JSON_SNIFF_SIZE = 4 * 1048576;
+
+// Content-Type values that say nothing about the body
+const GENERIC_MIME_TYPES = [
+  'application/octet-stream',
+  'binary/octet-stream',
+  'application/unknown',
+  'application/x-download',
+  'application/force-download',
+  'text/plain',
+];
+
+const SVG_PATTERN = /^\s*(?:<\?xml[^>]*>\s*)?(?:(?:<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)\s*)*<svg[\s>]/i;
+// Source maps may carry the ")]}'" XSSI prefix the spec allows
+const SOURCE_MAP_PATTERN = /^\s*(?:\)\]\}'[^\n]*\n)?\{\s*"version"\s*:\s*3\b/;
+
+const ascii = (bytes: Uint8Array, offset: number, text: string): boolean => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[]): boolean =>
+  signature.every((byte, i) => bytes[i] === byte);
+
+/**
+ * Checks the sfnt table directory behind a TrueType/OpenType tag: a plausible
+ * table count and, for the text-like "true" tag, also the searchRange derived
+ * from it, so JSON or plain text that starts with "true" is not taken for a font.
+ */
+const hasSfntHeader = (bytes: Uint8Array, checkSearchRange = false): boolean => {
+  if (bytes.length < 12) return false;
+  const numTables = (bytes[4] << 8) | bytes[5];
+  if (numTables === 0 || numTables > 256) return false;
+  const searchRange = (bytes[6] << 8) | bytes[7];
+  return !checkSearchRange || searchRange === 16 * 2 ** Math.floor(Math.log2(numTables));
+};
+
+/**
+ * Identifies binary formats by their magic numbers. Returns null for text and
+ * for anything unrecognised.
+ */
+export const sniffMimeType = (bytes: Uint8Array): string | null => {
+  // Images
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (ascii(bytes, 0, 'GIF87a') || ascii(bytes, 0, 'GIF89a')) return 'image/gif';
+  if (ascii(bytes, 0, 'RIFF') && ascii(bytes, 8, 'WEBP')) return 'image/webp';
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) return 'image/x-icon';
+  if (ascii(bytes, 0, 'II*\0') || ascii(bytes, 0, 'MM\0*')) return 'image/tiff';
+  if (ascii(bytes, 0, 'BM') && bytes.length > 14) return 'image/bmp';
+
+  // Fonts
+  if (ascii(bytes, 0, 'wOFF')) return 'font/woff';
+  if (ascii(bytes, 0, 'wOF2')) return 'font/woff2';
+  if (ascii(bytes, 0, 'OTTO') && hasSfntHeader(bytes)) return 'font/otf';
+  if (startsWith(bytes, [0x00, 0x01, 0x00, 0x00]) && hasSfntHeader(bytes)) return 'font/ttf';
+  if (ascii(bytes, 0, 'true') && hasSfntHeader(bytes, true)) return 'font/ttf';
+  if (ascii(bytes, 0, 'ttcf')) return 'font/collection';
+
+  // ISO base media (MP4, M4A, AVIF...): the brand after "ftyp" names the flavour
+  if (ascii(bytes, 4, 'ftyp')) {
+    const brand = String.fromCharCode(...bytes.slice(8, 12));
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (brand === 'M4A ' || brand === 'M4B ') return 'audio/mp4';
+    if (brand === 'qt  ') return 'video/quicktime';
+    return 'video/mp4';
+  }
+
+  // Audio and video
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+  if (ascii(bytes, 0, 'OggS')) {
+    return String.fromCharCode(...bytes.slice(0, 64)).includes('theora') ? 'video/ogg' : 'audio/ogg';
+  }
+  if (ascii(bytes, 0, 'RIFF') && ascii(bytes, 8, 'WAVE')) return 'audio/wav';
+  if (ascii(bytes, 0, 'RIFF') && ascii(bytes, 8, 'AVI ')) return 'video/x-msvideo';
+  if (ascii(bytes, 0, 'fLaC')) return 'audio/flac';
+  if (ascii(bytes, 0, 'ID3')) return 'audio/mpeg';
+  if (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) return 'audio/aac';
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return 'audio/mpeg';
+
+  // Other binaries
+  if (startsWith(bytes, [0x00, 0x61, 0x73, 0x6d])) return 'application/wasm';
+  if (ascii(bytes, 0, '%PDF-')) return 'application/pdf';
+
+  return null;
+};
+
+export const getAssetTypeForMimeType = (mimeType: string): Asset['type'] => {
+  if (mimeType === 'text/css') return 'css';
+  if (/(?:java|ecma)script$/.test(mimeType)) return 'js';
+  if (mimeType.startsWith('font/') || /^application\/(?:x-)?font-|^application\/vnd\.ms-fontobject$/.test(mimeType)) return 'font';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'other';
+};
+
+const sniffText = async (body: Blob, head: Uint8Array): Promise<{ mimeType: string; extension?: string } | null> => {
+  const text = new TextDecoder().decode(head);
+  if (SVG_PATTERN.test(text)) return { mimeType: 'image/svg+xml' };
+  if (SOURCE_MAP_PATTERN.test(text)) return { mimeType: 'application/json', extension: '.map' };
+  if (/^\s*[{[]/.test(text) && body.size <= MAX_JSON_SNIFF_SIZE) {
+    try {
+      JSON.parse(await body.text());
+      return { mimeType: 'application/json' };
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return null;
+};
+
+/**
+ * Works out what a downloaded body is. Magic numbers win over the
+ * Content-Type header, which wins over the URL's extension; `fallback` is the
+ * type the page referenced the asset as, used when nothing else is known.
+ */
+export const detectContent = async (
+  body: Blob,
+  contentType: string | null,
+  url: string,
+  fallback: Asset['type']
+): Promise<DetectedContent> => {
+  const head = new Uint8Array(await body.slice(0, SNIFF_LENGTH).arrayBuffer());
+  const declared = parseMimeType(contentType);
+  const usefulDeclared = declared && !GENERIC_MIME_TYPES.includes(declared) ? declared : null;
+  const pathname = new URL(url).pathname;
+
+  let mimeType = sniffMimeType(head);
+  let extension: string | undefined;
+  if (mimeType) {
+    // Containers such as WebM and Ogg hold audio or video; a header naming the same container knows which
+    if (usefulDeclared && usefulDeclared.split('/')[1] === mimeType.split('/')[1]) mimeType = usefulDeclared;
+  } else {
+    const text = await sniffText(body, head);
+    mimeType = text?.mimeType ?? usefulDeclared ?? getMimeTypeForPath(pathname);
+    extension = text?.extension ?? (/\.map$/i.test(pathname) && mimeType === 'application/json' ? '.map' : undefined);
+  }
+
+  if (mimeType === 'application/octet-stream') {
+    return { type: fallback, mimeType, extension: '' };
+  }
+  return { type: getAssetTypeForMimeType(mimeType), mimeType, extension: extension ?? getExtensionForMimeType(mimeType) };
+};
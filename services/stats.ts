@@ -0,0 +1,58 @@
+/**
+ * Live crawl statistics: a fresh CrawlStats record, a sliding-window
+ * throughput meter and the time-to-completion estimate.
+ */
+import { CrawlStats } from '../types';
+
+export const createEmptyStats = (): CrawlStats => ({
+  pagesScanned: 0,
+  assetsFound: 0,
+  assetsDownloaded: 0,
+  totalSize: 0,
+  bytesSaved: 0,
+  failed: 0,
+  skipped: 0,
+  byType: {},
+  bytesByHost: {},
+  elapsed: 0,
+  throughput: 0,
+  progress: 0,
+  eta: null,
+});
+
+const THROUGHPUT_WINDOW = 5_000;
+
+/**
+ * Bytes per second over the last few seconds, so the figure reflects what the
+ * crawl is doing now rather than its average since the start.
+ */
+export class ThroughputMeter {
+  private samples: { time: number; bytes: number }[] = [];
+
+  record(bytes: number, now = Date.now()) {
+    this.samples.push({ time: now, bytes });
+    this.prune(now);
+  }
+
+  rate(now = Date.now()): number {
+    this.prune(now);
+    if (this.samples.length === 0) return 0;
+    const bytes = this.samples.reduce((sum, sample) => sum + sample.bytes, 0);
+    // Early in a crawl the window is not full yet; never divide by less than a second
+    const span = Math.max(1_000, Math.min(THROUGHPUT_WINDOW, now - this.samples[0].time));
+    return (bytes * 1000) / span;
+  }
+
+  private prune(now: number) {
+    while (this.samples.length > 0 && now - this.samples[0].time > THROUGHPUT_WINDOW) this.samples.shift();
+  }
+}
+
+/**
+ * Extrapolates the time left from the average pace so far. Items discovered
+ * later grow the total, so the estimate firms up as the crawl proceeds.
+ */
+export const estimateRemaining = (elapsed: number, done: number, total: number): number | null => {
+  if (done === 0 || total === 0 || elapsed === 0) return null;
+  return Math.max(0, Math.round((elapsed / done) * (total - done)));
+};
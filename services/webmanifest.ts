@@ -0,0 +1,25 @@
+/**
+ * Web app manifests (manifest.webmanifest) list icons, screenshots and shortcut
+ * icons by URLs relative to the manifest itself.
+ */
+
+export interface WebManifestImage {
+  src: string;
+  [member: string]: unknown;
+}
+
+const asImages = (value: unknown): WebManifestImage[] =>
+  Array.isArray(value) ? value.filter((image): image is WebManifestImage => typeof image?.src === 'string') : [];
+
+/**
+ * Returns the image entries of a parsed manifest. Changing their `src` changes the manifest.
+ */
+export const getWebManifestImages = (manifest: any): WebManifestImage[] => {
+  if (!manifest || typeof manifest !== 'object') return [];
+  const shortcuts = Array.isArray(manifest.shortcuts) ? manifest.shortcuts : [];
+  return [
+    ...asImages(manifest.icons),
+    ...asImages(manifest.screenshots),
+    ...shortcuts.flatMap((shortcut: any) => asImages(shortcut?.icons)),
+  ];
+};
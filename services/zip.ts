@@ -0,0 +1,337 @@
+/**
+ * Streaming ZIP writer and a lazy reader for what it wrote. Files are compressed
+ * one at a time as the crawl hands them over and flushed to a ZipTarget, so a
+ * large site never has to fit in memory at once. Archives past 4 GB or 65,535
+ * files switch to ZIP64.
+ */
+import { ArchiveEntry } from '../types';
+import { getMimeTypeForPath, isCompressedMimeType } from './mime';
+
+/** Where the archive bytes go: a file on disk, a download, ... */
+export interface ZipTarget {
+  write(chunk: Uint8Array): Promise<void>;
+}
+
+/** Raw DEFLATE (no zlib header), as stored in ZIP entries. Compresses a stream chunk by chunk. */
+export type Deflate = (input: ReadableStream<Uint8Array>) => ReadableStream<Uint8Array>;
+export type Inflate = (data: Uint8Array) => Promise<Uint8Array>;
+
+const STORED = 0;
+const DEFLATED = 8;
+const DATA_DESCRIPTOR = 0x0008; // CRC and sizes follow the data instead of preceding it
+const UTF8_NAMES = 0x0800;
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const MIN_MEMORY_BUDGET = 1024 * 1024;
+// DEFLATE can grow incompressible input slightly, so entries this close to 4 GB get ZIP64 up front
+const ZIP64_THRESHOLD = MAX_32 - 32 * 1024 * 1024;
+
+const LOCAL_HEADER = 0x04034b50;
+const DESCRIPTOR_HEADER = 0x08074b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIR = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA = 0x0001;
+
+const CRC_TABLE = new Uint32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c;
+});
+
+/** CRC-32 of `data`; pass the previous result as `crc` to continue over the next chunk */
+export const crc32 = (data: Uint8Array, crc = 0): number => {
+  crc = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const forEachChunk = async (stream: ReadableStream<Uint8Array>, onChunk: (chunk: Uint8Array) => void | Promise<void>) => {
+  const reader = stream.getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) await onChunk(result.value);
+};
+
+// MS-DOS date and time, the only timestamp every unzip tool understands
+const dosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+/** Little-endian record builder */
+class ByteWriter {
+  private view: DataView;
+  private pos = 0;
+  readonly bytes: Uint8Array;
+
+  constructor(size: number) {
+    this.bytes = new Uint8Array(size);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u16(value: number) { this.view.setUint16(this.pos, value, true); this.pos += 2; return this; }
+  u32(value: number) { this.view.setUint32(this.pos, value, true); this.pos += 4; return this; }
+  u64(value: number) { this.view.setBigUint64(this.pos, BigInt(value), true); this.pos += 8; return this; }
+  raw(bytes: Uint8Array) { this.bytes.set(bytes, this.pos); this.pos += bytes.length; return this; }
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+export interface ZipWriterOptions {
+  deflate: Deflate;
+  /**
+   * Bytes the writer may hold at once: files waiting to be compressed plus output
+   * not yet flushed. Files are read and compressed in chunks, so this holds for
+   * single files larger than the budget too.
+   */
+  memoryBudget: number;
+}
+
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private names = new Set<string>();
+  private chunks: Uint8Array[] = [];
+  private buffered = 0; // Output bytes not yet handed to the target
+  private queued = 0; // Input bytes waiting to be compressed
+  private offset = 0;
+  private filesTotal = 0;
+  private filesWritten = 0;
+  private tail: Promise<void> = Promise.resolve();
+  private error: unknown = null; // First failure of a queued write, rethrown to the caller
+  private onProgress: ((done: number, total: number) => void) | null = null;
+  private deflate: Deflate;
+  private memoryBudget: number;
+
+  constructor(private target: ZipTarget, options: ZipWriterOptions) {
+    this.deflate = options.deflate;
+    this.memoryBudget = Math.max(MIN_MEMORY_BUDGET, options.memoryBudget);
+  }
+
+  /**
+   * Queues a file. Resolves once the writer is back under its memory budget,
+   * which holds the crawl back while compression or the target catches up.
+   */
+  async add(path: string, content: Blob | string) {
+    this.throwIfFailed();
+    // An entry already streamed out cannot be replaced, so the first copy wins
+    if (this.names.has(path)) return;
+    this.names.add(path);
+    const size = typeof content === 'string' ? content.length * 3 : content.size; // Worst case for UTF-8
+    this.queued += size;
+    this.filesTotal++;
+    // Nothing is written after a failure, and the failure surfaces from the next add() or close()
+    this.tail = this.tail
+      .then(() => this.error ? undefined : this.writeEntry(path, content, size))
+      .catch(e => { this.error ??= e; });
+    if (this.queued + this.buffered > this.memoryBudget) {
+      await this.tail;
+      this.throwIfFailed();
+    }
+  }
+
+  private throwIfFailed() {
+    if (this.error) throw this.error;
+  }
+
+  /**
+   * Writes the central directory once every queued file is in. `onProgress`
+   * reports files written out of files added while the queue drains.
+   */
+  async close(onProgress?: (done: number, total: number) => void) {
+    this.onProgress = onProgress ?? null;
+    this.onProgress?.(this.filesWritten, this.filesTotal);
+    await this.tail;
+    this.throwIfFailed();
+
+    const start = this.offset;
+    for (const entry of this.entries) this.push(this.centralHeader(entry));
+    const size = this.offset - start;
+    const count = this.entries.length;
+
+    if (count >= MAX_16 || size >= MAX_32 || start >= MAX_32) {
+      const zip64End = this.offset;
+      this.push(new ByteWriter(56)
+        .u32(ZIP64_END_OF_CENTRAL_DIR).u64(44).u16(45).u16(45).u32(0).u32(0)
+        .u64(count).u64(count).u64(size).u64(start).bytes);
+      this.push(new ByteWriter(20).u32(ZIP64_LOCATOR).u32(0).u64(zip64End).u32(1).bytes);
+    }
+    this.push(new ByteWriter(22)
+      .u32(END_OF_CENTRAL_DIR).u16(0).u16(0)
+      .u16(Math.min(count, MAX_16)).u16(Math.min(count, MAX_16))
+      .u32(Math.min(size, MAX_32)).u32(Math.min(start, MAX_32)).u16(0).bytes);
+    await this.flush();
+  }
+
+  private async writeEntry(path: string, content: Blob | string, queuedSize: number) {
+    const blob = typeof content === 'string' ? new Blob([content]) : content;
+    // Images, video and web fonts carry their own compression; deflating them again only costs time
+    const method = isCompressedMimeType(getMimeTypeForPath(path)) ? STORED : DEFLATED;
+    const [time, date] = dosDateTime(new Date());
+    const entry: CentralEntry = {
+      name: encoder.encode(path), method, crc: 0,
+      compressedSize: blob.size, size: blob.size, offset: this.offset, time, date,
+    };
+    // Stored files are read twice so the header can carry their CRC. Deflated
+    // sizes are only known at the end, so those go in a data descriptor instead.
+    if (method === STORED) await forEachChunk(blob.stream(), chunk => { entry.crc = crc32(chunk, entry.crc); });
+    const deferred = method === DEFLATED;
+    const zip64 = entry.size >= ZIP64_THRESHOLD;
+
+    const header = new ByteWriter(30 + entry.name.length + (zip64 ? 20 : 0))
+      .u32(LOCAL_HEADER).u16(zip64 ? 45 : 20).u16(UTF8_NAMES | (deferred ? DATA_DESCRIPTOR : 0))
+      .u16(method).u16(time).u16(date).u32(entry.crc)
+      .u32(zip64 ? MAX_32 : deferred ? 0 : entry.compressedSize).u32(zip64 ? MAX_32 : deferred ? 0 : entry.size)
+      .u16(entry.name.length).u16(zip64 ? 20 : 0).raw(entry.name);
+    if (zip64) header.u16(ZIP64_EXTRA).u16(16).u64(deferred ? 0 : entry.size).u64(deferred ? 0 : entry.compressedSize);
+    this.push(header.bytes);
+
+    const write = async (chunk: Uint8Array) => {
+      this.push(chunk);
+      if (this.buffered >= this.memoryBudget / 4) await this.flush();
+    };
+    if (deferred) {
+      entry.compressedSize = 0;
+      const input = blob.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+          entry.crc = crc32(chunk, entry.crc);
+          controller.enqueue(chunk);
+        },
+      }));
+      await forEachChunk(this.deflate(input), chunk => {
+        entry.compressedSize += chunk.length;
+        return write(chunk);
+      });
+      const descriptor = new ByteWriter(zip64 ? 24 : 16).u32(DESCRIPTOR_HEADER).u32(entry.crc);
+      if (zip64) descriptor.u64(entry.compressedSize).u64(entry.size);
+      else descriptor.u32(entry.compressedSize).u32(entry.size);
+      this.push(descriptor.bytes);
+    } else {
+      await forEachChunk(blob.stream(), write);
+    }
+
+    this.entries.push(entry);
+    this.queued -= queuedSize;
+    if (this.buffered >= this.memoryBudget / 4) await this.flush();
+
+    this.filesWritten++;
+    this.onProgress?.(this.filesWritten, this.filesTotal);
+  }
+
+  private centralHeader(entry: CentralEntry): Uint8Array {
+    // ZIP64 extra fields only carry the values that overflowed, in this order
+    const wide = [entry.size, entry.compressedSize, entry.offset].filter(value => value >= MAX_32);
+    const extraLength = wide.length > 0 ? 4 + wide.length * 8 : 0;
+    const record = new ByteWriter(46 + entry.name.length + extraLength)
+      .u32(CENTRAL_HEADER).u16(45).u16(wide.length > 0 ? 45 : 20).u16(UTF8_NAMES).u16(entry.method)
+      .u16(entry.time).u16(entry.date).u32(entry.crc)
+      .u32(Math.min(entry.compressedSize, MAX_32)).u32(Math.min(entry.size, MAX_32))
+      .u16(entry.name.length).u16(extraLength).u16(0).u16(0).u16(0).u32(0)
+      .u32(Math.min(entry.offset, MAX_32)).raw(entry.name);
+    if (wide.length > 0) {
+      record.u16(ZIP64_EXTRA).u16(wide.length * 8);
+      wide.forEach(value => record.u64(value));
+    }
+    return record.bytes;
+  }
+
+  private push(bytes: Uint8Array) {
+    this.chunks.push(bytes);
+    this.buffered += bytes.length;
+    this.offset += bytes.length;
+  }
+
+  private async flush() {
+    if (this.chunks.length === 0) return;
+    const chunk = new Uint8Array(this.buffered);
+    let pos = 0;
+    for (const part of this.chunks) {
+      chunk.set(part, pos);
+      pos += part.length;
+    }
+    this.chunks = [];
+    this.buffered = 0;
+    await this.target.write(chunk);
+  }
+}
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<DataView> =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const u64 = (view: DataView, pos: number): number => Number(view.getBigUint64(pos, true));
+
+/**
+ * Lists the files of a ZIP archive without loading it: entries read their
+ * bytes from `zip` only when asked.
+ */
+export const readZip = async (zip: Blob, inflate: Inflate): Promise<Map<string, ArchiveEntry>> => {
+  const tailStart = Math.max(0, zip.size - 22 - MAX_16);
+  const tail = await readBytes(zip, tailStart, zip.size);
+  let end = tail.byteLength - 22;
+  while (end >= 0 && tail.getUint32(end, true) !== END_OF_CENTRAL_DIR) end--;
+  if (end < 0) throw new Error('Not a ZIP archive: end of central directory not found');
+
+  let count = tail.getUint16(end + 10, true);
+  let size = tail.getUint32(end + 12, true);
+  let start = tail.getUint32(end + 16, true);
+  if (end >= 20 && tail.getUint32(end - 20, true) === ZIP64_LOCATOR) {
+    const zip64 = await readBytes(zip, u64(tail, end - 12), u64(tail, end - 12) + 56);
+    count = u64(zip64, 32);
+    size = u64(zip64, 40);
+    start = u64(zip64, 48);
+  }
+
+  const central = await readBytes(zip, start, start + size);
+  const files = new Map<string, ArchiveEntry>();
+  for (let pos = 0, i = 0; i < count; i++) {
+    if (central.getUint32(pos, true) !== CENTRAL_HEADER) throw new Error('Corrupt ZIP central directory');
+    const method = central.getUint16(pos + 10, true);
+    let compressedSize = central.getUint32(pos + 20, true);
+    let fileSize = central.getUint32(pos + 24, true);
+    const nameLength = central.getUint16(pos + 28, true);
+    const extraLength = central.getUint16(pos + 30, true);
+    const commentLength = central.getUint16(pos + 32, true);
+    let offset = central.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(central.buffer, pos + 46, nameLength));
+
+    for (let extra = pos + 46 + nameLength; extra < pos + 46 + nameLength + extraLength;) {
+      const id = central.getUint16(extra, true);
+      let field = extra + 4;
+      if (id === ZIP64_EXTRA) {
+        if (fileSize === MAX_32) { fileSize = u64(central, field); field += 8; }
+        if (compressedSize === MAX_32) { compressedSize = u64(central, field); field += 8; }
+        if (offset === MAX_32) offset = u64(central, field);
+      }
+      extra += 4 + central.getUint16(extra + 2, true);
+    }
+    pos += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    const dataSize = compressedSize;
+    const headerOffset = offset;
+    files.set(name, {
+      size: fileSize,
+      read: async () => {
+        // The local header repeats the name and may carry different extra fields
+        const local = await readBytes(zip, headerOffset, headerOffset + 30);
+        const dataStart = headerOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = zip.slice(dataStart, dataStart + dataSize);
+        if (method === STORED) return data;
+        if (method !== DEFLATED) throw new Error(`${name} uses an unsupported compression method (${method})`);
+        return new Blob([await inflate(new Uint8Array(await data.arrayBuffer()))]);
+      },
+    });
+  }
+  return files;
+};
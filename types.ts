@@ -15,23 +15,281 @@ export interface LogEntry {
 export interface Asset {
   originalUrl: string;
   filename: string;
-  type: 'image' | 'css' | 'js' | 'font' | 'video' | 'other';
+  type: 'image' | 'css' | 'js' | 'font' | 'video' | 'audio' | 'other';
+  mimeType: string; // Detected from the body and Content-Type, e.g. "image/webp"
   content?: Blob | string;
   path: string; // Internal path in zip, e.g., "assets/img/logo.png"
 }
 
+/**
+ * Describes one place in the HTML where a resource URL can live.
+ * `format` controls how the attribute value is parsed: a single URL, or a
+ * srcset-style list of "url descriptor" candidates.
+ */
+export interface ExtractionRule {
+  selector: string;
+  attribute: string;
+  type: Asset['type'];
+  format: 'url' | 'srcset';
+}
+
 export enum AppState {
   IDLE = 'IDLE',
   CRAWLING = 'CRAWLING',
   PROCESSING = 'PROCESSING',
   COMPRESSING = 'COMPRESSING',
+  PAUSED = 'PAUSED',
+  CANCELLED = 'CANCELLED',
   FINISHED = 'FINISHED',
   ERROR = 'ERROR'
 }
 
+export interface TypeStats {
+  count: number;
+  bytes: number;
+}
+
 export interface CrawlStats {
   pagesScanned: number;
   assetsFound: number;
   assetsDownloaded: number;
   totalSize: number;
+  bytesSaved: number; // Bytes reused from the response cache instead of downloaded
+  failed: number; // Pages and assets that could not be fetched
+  skipped: number; // Pages and assets kept out by the rules
+  byType: Partial<Record<Asset['type'] | 'page', TypeStats>>; // Files stored in the archive
+  bytesByHost: Record<string, number>; // Bytes received per host, cache reuse included
+  elapsed: number; // ms since the crawl started
+  throughput: number; // Bytes per second over the last few seconds
+  progress: number; // 0..1 of the pages and assets discovered so far
+  eta: number | null; // Estimated ms until done, null while unknown
+}
+
+/**
+ * A stored response body plus the validators needed to revalidate it.
+ */
+export interface CachedResponse {
+  url: string;
+  body: Blob;
+  etag: string | null;
+  lastModified: string | null;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  size: number;
+  storedAt: number;
+}
+
+export interface ResponseCache {
+  get(url: string): Promise<CachedResponse | undefined>;
+  put(entry: CachedResponse): Promise<void>;
+  delete(url: string): Promise<void>;
+}
+
+/**
+ * Serves recorded responses in place of the network, e.g. a HAR capture.
+ */
+export interface ReplaySource {
+  name: string; // Reported as servedBy in the manifest, e.g. "har:capture.har"
+  fetch(url: string): Promise<Response>; // Rejects with a FetchError for URLs that were not recorded
+}
+
+export type TransportKind = 'public' | 'direct' | 'custom-proxy' | 'local-server';
+
+export interface TransportConfig {
+  kind: TransportKind;
+  proxyTemplate: string;  // Used by 'custom-proxy', e.g. "https://proxy.internal/fetch?url={url}"
+  localServerUrl: string; // Used by 'local-server'
+}
+
+export type PathStrategy = 'mirror' | 'hash';
+
+export type OutputFormat = 'zip' | 'warc' | 'html';
+
+export type CrawlScope = 'same-host' | 'same-path' | 'allowlist';
+
+/**
+ * User-tunable crawl settings. Everything here can be edited from the UI.
+ */
+export type ThirdPartyPolicy = 'download' | 'keep-remote' | 'drop';
+
+/**
+ * Filters deciding which discovered resources are fetched at all.
+ */
+export interface CrawlRules {
+  include: string[]; // Glob or /regex/ patterns; when non-empty a URL must match one of them
+  exclude: string[]; // Matching URLs are never fetched
+  assetTypes: Record<Asset['type'], boolean>; // false = skip assets of that type
+  maxAssetSize: number; // Bytes per asset, 0 = unlimited
+  maxTotalSize: number; // Byte budget for all assets in the archive, 0 = unlimited
+  thirdParty: ThirdPartyPolicy; // Assets from other sites: fetch, link to the original, or remove the reference
+}
+
+/**
+ * Clean-ups applied to every page once its assets are local.
+ */
+export type PostProcessTransform = 'integrity' | 'csp' | 'trackers' | 'service-workers' | 'form-actions';
+
+export type IntegrityMode = 'recompute' | 'remove';
+
+export interface PostProcessing {
+  transforms: Record<PostProcessTransform, boolean>;
+  integrity: IntegrityMode; // What the 'integrity' transform does with SRI hashes of local copies
+}
+
+/**
+ * Credentials for the hosts matching `hostPattern`, e.g. a staging site behind
+ * basic auth or a session cookie. Only sent over transports that do not pass
+ * through third parties.
+ */
+export interface AuthProfile {
+  id: string;
+  name: string;
+  enabled: boolean;
+  hostPattern: string; // Comma-separated hostnames; "*.example.com" also matches example.com
+  headers: Record<string, string>;
+  cookies: string; // Cookie header value, e.g. "session=abc; theme=dark"
+  userAgent: string; // '' = the transport's own
+  username: string; // HTTP basic auth, '' = none
+  password: string;
+  remember: boolean; // Keep header values, cookies and the password in this browser between sessions
+}
+
+/**
+ * A resource the crawler deliberately did not archive.
+ */
+export interface SkippedResource {
+  url: string;
+  type: Asset['type'] | 'page';
+  reason: string;
+}
+
+export interface CrawlConfig {
+  maxDepth: number;   // 0 = entry page only
+  maxPages: number;   // Hard cap on pages saved, including the entry page
+  scope: CrawlScope;
+  allowedHosts: string[]; // Only used when scope is 'allowlist'
+  transport: TransportConfig;
+  pathStrategy: PathStrategy; // Mirror host/path layout, or name files by content hash
+  concurrency: number; // Parallel asset downloads
+  maxRetries: number; // Extra attempts after transient failures (timeouts, 429, 5xx)
+  requestTimeout: number; // ms per request attempt, 0 = no limit
+  hostRateLimit: number; // Max requests per second to any one host, 0 = unlimited
+  outputFormat: OutputFormat;
+  useCache: boolean; // Revalidate against the persistent response cache instead of refetching
+  rules: CrawlRules;
+  useSitemap: boolean; // Seed the page queue with the URLs listed in the site's sitemaps
+  sitemapSince: string; // ISO date; sitemap URLs with an older lastmod are left out, '' = no filter
+  respectRobots: boolean; // false overrides robots.txt disallow rules and crawl-delay
+  userAgent: string; // Token matched against robots.txt User-agent groups
+  postProcessing: PostProcessing;
+  authProfiles: AuthProfile[]; // The first enabled profile matching a URL's host is applied
+  strictLinkCheck: boolean; // Fail the crawl when more than maxMissingRefs references are missing from the archive
+  maxMissingRefs: number;
+  memoryBudget: number; // Bytes the ZIP writer may hold in memory before it waits for output to be flushed
+  saveToDisk: boolean; // Web app: stream ZIP output straight to a file picked at the start
+}
+
+/**
+ * How a reference inside an archived HTML or CSS file resolves offline.
+ */
+export type LinkStatus = 'resolved' | 'missing' | 'remote' | 'data';
+
+export interface LinkCheckEntry {
+  file: string; // Archive path of the HTML or CSS file containing the reference
+  url: string;  // The reference as written
+  kind: 'resource' | 'link'; // Loaded by the page, or a link the reader can follow
+  status: LinkStatus;
+}
+
+export interface LinkReport {
+  files: number; // HTML and CSS files checked
+  counts: Record<LinkStatus, number>; // Resources only; links to pages are counted in `links`
+  links: Record<LinkStatus, number>;
+  problems: LinkCheckEntry[]; // Every missing or remote reference
+}
+
+/**
+ * One entry of manifest.json: everything QA needs to audit a single fetched URL.
+ */
+export interface ManifestResource {
+  url: string;
+  path: string | null;      // Location inside the archive, null if it was not saved
+  type: Asset['type'] | 'page';
+  mimeType: string | null;
+  size: number | null;      // Bytes as stored in the archive
+  sha256: string | null;
+  status: number | null;    // HTTP status, if a response was received
+  servedBy: string | null;  // Transport or proxy that answered
+  error: string | null;
+}
+
+export interface CrawlManifest {
+  tool: { name: string; version: string };
+  entryUrl: string;
+  startedAt: string;
+  finishedAt: string;
+  complete: boolean; // False for partial archives saved after a cancel
+  options: CrawlConfig;
+  summary: { pages: number; assets: number; failed: number; skipped: number; totalBytes: number };
+  linkCheck: LinkReport; // How the references in the archived HTML and CSS resolve offline
+  resources: ManifestResource[];
+  skipped: SkippedResource[];
+}
+
+/**
+ * A past crawl, as kept in the persistent history.
+ */
+export interface HistoryEntry {
+  id: string;
+  url: string;
+  options: CrawlConfig; // Auth profiles are redacted
+  outcome: AppState.FINISHED | AppState.CANCELLED | AppState.ERROR;
+  error: string | null;
+  startedAt: number;
+  finishedAt: number;
+  pages: number;
+  assets: number;
+  failed: number;
+  size: number; // Bytes of the built output, 0 if nothing was built
+  filename: string | null;
+  archived: boolean; // The output itself is stored and can be downloaded again
+}
+
+/**
+ * A response exactly as it came back from the transport, before any rewriting.
+ */
+export interface CapturedResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: Blob | string;
+  fetchedAt: number;
+}
+
+/**
+ * Parses and serializes HTML. The browser uses DOMParser, Node uses linkedom.
+ */
+export interface HtmlAdapter {
+  parse(html: string): Document;
+  serialize(doc: Document): string;
+}
+
+/**
+ * Receives every file of the archive as it is produced.
+ * `close` is called once at the end and returns a description of where the output went.
+ */
+export interface OutputSink {
+  write(path: string, content: Blob | string): Promise<void>;
+  /** `onProgress` reports files written out of files received while the output is finished */
+  close(archiveName: string, onProgress?: (done: number, total: number) => void): Promise<string>;
+}
+
+/**
+ * A file of a built archive. Its content is only loaded when read.
+ */
+export interface ArchiveEntry {
+  size: number;
+  read(): Promise<Blob | string>;
 }